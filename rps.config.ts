@@ -0,0 +1,28 @@
+import 'dotenv/config';
+import { foundry, sepolia } from 'viem/chains';
+import { defineConfig } from './ts_tests/client/config.js';
+
+/*
+ * Environment profiles for every runner, selected with `--env <name>` (default: TEST_ENV, else anvil).
+ * Secrets stay in .env; add a profile here to point the suites at another chain.
+ */
+export default defineConfig({
+  profiles: {
+    anvil: {
+      chain: foundry,
+      rpcUrl: process.env.ANVIL_RPC_URL || 'http://127.0.0.1:8545',
+      contractAddress: process.env.CONTRACT_ADDRESS,
+      deploymentBlock: process.env.DEPLOYMENT_BLOCK,
+      fees: { mode: 'zero' },
+      confirmations: 0
+    },
+    sepolia: {
+      chain: sepolia,
+      rpcUrl: process.env.SEPOLIA_RPC_URL,
+      contractAddress: process.env.CONTRACT_ADDRESS,
+      deploymentBlock: process.env.DEPLOYMENT_BLOCK,
+      fees: { mode: 'market', multiplierPct: 130 },
+      confirmations: 2
+    }
+  }
+});
@@ -0,0 +1,142 @@
+import { spawn, ChildProcess } from 'child_process';
+import net from 'net';
+import { Env } from './utils.js';
+
+export type AnvilOptions = {
+  /** Executable to run (default: ANVIL_BIN or `anvil` on PATH) */
+  bin?: string;
+  /** Port to listen on (default: a free one) */
+  port?: number;
+  /** Extra CLI arguments appended after the zero-fee defaults */
+  args?: string[];
+  /** Give up when the node does not answer eth_chainId within this time */
+  readyTimeoutMs?: number;
+};
+
+export interface ManagedAnvil {
+  readonly rpcUrl: string;
+  readonly port: number;
+  readonly pid: number;
+  /** Terminate the node; safe to call more than once */
+  stop(): Promise<void>;
+}
+
+/** How many tail bytes of Anvil's output to keep for error messages */
+const OUTPUT_TAIL = 4096;
+
+async function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.unref();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+async function answersRpc(rpcUrl: string): Promise<boolean> {
+  try {
+    const res = await fetch(rpcUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] }),
+      signal: AbortSignal.timeout(1_000)
+    });
+    return res.ok && typeof (await res.json())?.result === 'string';
+  } catch {
+    return false;
+  }
+}
+
+function exited(child: ChildProcess): Promise<void> {
+  return new Promise(resolve => {
+    if (child.exitCode !== null || child.signalCode !== null) return resolve();
+    child.once('exit', () => resolve());
+  });
+}
+
+/**
+ * Start a private Anvil with zero base fee and gas price on a free port and wait until it answers
+ * JSON-RPC. The node is killed when `stop()` is called, when this process exits (including
+ * `process.exit(1)` after a failure) and on SIGINT/SIGTERM.
+ */
+export async function startAnvil(opts: AnvilOptions = {}): Promise<ManagedAnvil> {
+  const bin = opts.bin ?? process.env.ANVIL_BIN ?? 'anvil';
+  const port = opts.port ?? await freePort();
+  const rpcUrl = `http://127.0.0.1:${port}`;
+  const args = ['--host', '127.0.0.1', '--port', String(port), '--base-fee', '0', '--gas-price', '0', ...(opts.args ?? [])];
+
+  const child = spawn(bin, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+  let output = '';
+  const capture = (chunk: Buffer) => { output = (output + chunk.toString()).slice(-OUTPUT_TAIL); };
+  child.stdout!.on('data', capture);
+  child.stderr!.on('data', capture);
+  let spawnError: Error | undefined;
+  child.once('error', err => { spawnError = err; });
+
+  const kill = () => {
+    if (child.exitCode === null && child.signalCode === null) child.kill('SIGTERM');
+  };
+  const onSignal = (signal: NodeJS.Signals) => {
+    kill();
+    process.exit(signal === 'SIGINT' ? 130 : 143);
+  };
+  process.once('exit', kill);
+  process.once('SIGINT', onSignal);
+  process.once('SIGTERM', onSignal);
+  const detach = () => {
+    process.off('exit', kill);
+    process.off('SIGINT', onSignal);
+    process.off('SIGTERM', onSignal);
+  };
+
+  const stop = async () => {
+    detach();
+    kill();
+    await exited(child);
+  };
+
+  const timeoutMs = opts.readyTimeoutMs ?? 15_000;
+  const started = Date.now();
+  while (!(await answersRpc(rpcUrl))) {
+    if (spawnError) {
+      detach();
+      const missing = (spawnError as NodeJS.ErrnoException).code === 'ENOENT';
+      throw new Error(missing
+        ? `Cannot start Anvil: "${bin}" not found. Install Foundry (foundryup) or set ANVIL_BIN`
+        : `Cannot start Anvil (${bin}): ${spawnError.message}`);
+    }
+    if (child.exitCode !== null || child.signalCode !== null) {
+      detach();
+      throw new Error(`Anvil exited with ${child.exitCode ?? child.signalCode} before it was ready:\n${output.trim()}`);
+    }
+    if (Date.now() - started > timeoutMs) {
+      await stop();
+      throw new Error(`Anvil did not answer on ${rpcUrl} within ${timeoutMs}ms:\n${output.trim()}`);
+    }
+    await new Promise(r => setTimeout(r, 100));
+  }
+
+  // Never keep the event loop alive for the node; the exit hook above still kills it
+  child.unref();
+  (child.stdout as any)?.unref?.();
+  (child.stderr as any)?.unref?.();
+
+  return { rpcUrl, port, pid: child.pid!, stop };
+}
+
+/**
+ * `--managed-anvil`: start a private Anvil and point `env` at it. Any CONTRACT_ADDRESS is dropped,
+ * since the fresh chain has no code, so the runner deploys once. Returns undefined without the flag.
+ */
+export async function managedAnvil(env: Env, argv: string[]): Promise<ManagedAnvil | undefined> {
+  if (!argv.includes('--managed-anvil')) return undefined;
+  if (!env.isLocal) throw new Error('--managed-anvil only works with --env anvil');
+  const anvil = await startAnvil();
+  console.log(`⚒️  Started Anvil on ${anvil.rpcUrl} (pid ${anvil.pid})`);
+  env.rpcUrl = anvil.rpcUrl;
+  env.contractAddress = undefined;
+  return anvil;
+}
@@ -0,0 +1,9 @@
+/**
+ * Value of `--name=value` or `--name value` in `argv`. Everything after the first `=` belongs to the
+ * value, so `--seed=a=b` reads `a=b`. Kept free of imports so runners that must start before the
+ * contract is built (runForgeTest) can use it; everything else imports it from utils.ts.
+ */
+export function argValue(argv: string[], name: string): string | undefined {
+  const inline = argv.find(a => a.startsWith(`--${name}=`))?.slice(name.length + 3);
+  return inline || (argv.includes(`--${name}`) ? argv[argv.indexOf(`--${name}`) + 1] : undefined);
+}
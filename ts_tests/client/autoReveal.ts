@@ -0,0 +1,158 @@
+import { ChainAdapter, SendResult } from './chainAdapter.js';
+import { isTxError } from './txPipeline.js';
+import { CommitmentVault, recoverReveal } from './vault.js';
+import { makeRpsClient } from './rpsClient.js';
+import { GameStatus } from './gameView.js';
+
+type Hex = `0x${string}`;
+
+export type AutoRevealOptions = {
+  vault: CommitmentVault;
+  /** Player 1 account whose games are watched (defaults to the adapter's first account) */
+  account?: Hex;
+  /** First block to scan for GameJoined; defaults to `lookbackBlocks` before the head */
+  fromBlock?: bigint;
+  /** Catch-up window when fromBlock is unset: joins older than this are already past REVEAL_DURATION on Sepolia */
+  lookbackBlocks?: bigint;
+  /** Warn when fewer seconds than this remain before revealDeadline */
+  safetyMarginSec?: bigint;
+  /** How long one submission may stay pending before it is replaced with higher fees */
+  attemptTimeoutMs?: number;
+  /** Fee increase per replacement; nodes require at least 10% to accept one */
+  bumpPercent?: bigint;
+  /** Never bid above this maxFeePerGas */
+  maxFeePerGas?: bigint;
+  log?: (message: string) => void;
+};
+
+export type RevealOutcome = {
+  gameId: bigint;
+  result: 'revealed' | 'skipped' | 'expired' | 'failed';
+  reason?: string;
+  tx?: SendResult;
+  /** Submissions made, including fee-bumped replacements */
+  attempts: number;
+  /** Seconds left before revealDeadline when the agent picked the game up */
+  secondsLeft: bigint;
+  warnings: string[];
+};
+
+export interface AutoRevealAgent {
+  readonly account: Hex;
+  /** Scan new GameJoined logs and reveal every game of ours that needs it */
+  poll(): Promise<RevealOutcome[]>;
+  /** Poll until `signal` aborts */
+  run(opts?: { signal?: AbortSignal; pollMs?: number; onOutcome?: (o: RevealOutcome) => void }): Promise<void>;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? (err as any).shortMessage ?? err.message : String(err);
+}
+
+/**
+ * Reveal player 1's move as soon as an opponent joins: GameJoined logs are polled through the adapter
+ * (same code path on viem and ethers), the salt/nonce come from the vault, and the reveal goes through
+ * the adapter's tx pipeline: simulated first, so a reveal that would revert is never broadcast, then
+ * replaced at the same nonce with bumped fees every `attemptTimeoutMs` until it lands or the deadline passes.
+ */
+export function createAutoRevealAgent(adapter: ChainAdapter, opts: AutoRevealOptions): AutoRevealAgent {
+  const account = opts.account ?? adapter.accounts[0];
+  const client = makeRpsClient(adapter, account);
+  const log = opts.log ?? console.log;
+  const margin = opts.safetyMarginSec ?? 30n;
+  const attemptTimeoutMs = opts.attemptTimeoutMs ?? 15_000;
+  const bumpPercent = opts.bumpPercent ?? 25n;
+  let cursor: bigint | undefined = opts.fromBlock !== undefined ? opts.fromBlock - 1n : undefined;
+  // Games whose reveal failed but may still make the deadline
+  const retry = new Set<bigint>();
+  const done = new Set<bigint>();
+
+  async function reveal(gameId: bigint): Promise<RevealOutcome> {
+    const warnings: string[] = [];
+    const warn = (message: string) => {
+      warnings.push(message);
+      log(`   ⚠️  Game ${gameId}: ${message}`);
+    };
+    const [game, now] = await Promise.all([client.getGame(gameId), adapter.now()]);
+    const secondsLeft = game.revealDeadline - now;
+    const outcome = (result: RevealOutcome['result'], extra: Partial<RevealOutcome> = {}): RevealOutcome =>
+      ({ gameId, result, attempts: 0, secondsLeft, warnings, ...extra });
+
+    if (game.status !== GameStatus.REVEAL_PHASE) return outcome('skipped', { reason: `game is ${GameStatus[game.status]}` });
+    if (game.revealed?.[0]) return outcome('skipped', { reason: 'already revealed' });
+    if (secondsLeft < 0n) return outcome('expired', { reason: 'reveal deadline already passed' });
+    const secret = recoverReveal(opts.vault, game, account);
+    if (!secret) return outcome('skipped', { reason: `no secret in ${opts.vault.path} matches the commitment` });
+    if (secondsLeft < margin) warn(`only ${secondsLeft}s left before the reveal deadline (margin ${margin}s)`);
+
+    let attempts = 0;
+    try {
+      const tx = await adapter.send(account, 'reveal', [gameId, secret.move, secret.salt, secret.nonce], 0n, {
+        replaceAfterMs: attemptTimeoutMs,
+        bumpPercent,
+        maxFeePerGas: opts.maxFeePerGas,
+        async expired() {
+          const left = game.revealDeadline - await adapter.now();
+          if (left >= 0n && left < margin) warn(`reveal still pending with ${left}s left`);
+          return left < 0n;
+        },
+        onBroadcast(tx, submissions) {
+          attempts = submissions;
+          if (submissions > 1) log(`   ⛽ Game ${gameId}: replaced pending reveal (nonce ${tx.nonce}) with maxFeePerGas ${tx.fees?.maxFeePerGas} TX: ${tx.hash}`);
+        }
+      });
+      return outcome('revealed', { tx, attempts });
+    } catch (err) {
+      if (isTxError(err) && (err.failure.kind === 'expired' || (err.failure.kind === 'simulation' && err.failure.revert?.name === 'RevealDeadlinePassed'))) {
+        return outcome('expired', { reason: `still pending after the deadline (${attempts} submission(s))`, attempts });
+      }
+      return outcome('failed', { reason: errorMessage(err), attempts });
+    }
+  }
+
+  const agent: AutoRevealAgent = {
+    account,
+
+    async poll() {
+      const head = await adapter.blockNumber();
+      if (cursor === undefined) {
+        const lookback = opts.lookbackBlocks ?? 60n;
+        cursor = head > lookback ? head - lookback : 0n;
+      }
+      const joined = cursor < head ? await adapter.getLogs({ eventName: 'GameJoined', fromBlock: cursor + 1n, toBlock: head }) : [];
+      cursor = head;
+
+      const candidates = new Set(retry);
+      for (const e of joined) candidates.add(e.args.gameId as bigint);
+      const outcomes: RevealOutcome[] = [];
+      for (const gameId of candidates) {
+        if (done.has(gameId)) continue;
+        const game = await client.getGame(gameId);
+        if (game.player1.toLowerCase() !== account.toLowerCase()) continue;
+        log(`\n🔔 Game ${gameId}: opponent ${game.player2} joined, revealing...`);
+        const o = await reveal(gameId);
+        retry.delete(gameId);
+        if (o.result === 'failed') retry.add(gameId);
+        else done.add(gameId);
+        if (o.result === 'revealed') log(`   ✅ Game ${gameId}: revealed in ${o.attempts} submission(s) TX: ${o.tx!.hash}`);
+        else log(`   ${o.result === 'skipped' ? 'ℹ️ ' : '❌'} Game ${gameId}: ${o.result} (${o.reason})`);
+        outcomes.push(o);
+      }
+      return outcomes;
+    },
+
+    async run({ signal, pollMs = 2_000, onOutcome } = {}) {
+      while (!signal?.aborted) {
+        for (const o of await agent.poll()) onOutcome?.(o);
+        await sleep(pollMs, signal);
+      }
+    }
+  };
+
+  return agent;
+}
@@ -0,0 +1,187 @@
+type Hex = `0x${string}`;
+
+/**
+ * A decoded RockPaperScissors event. Args are normalised across libraries:
+ * uint256 -> bigint, uint8 enums -> number, addresses checksummed.
+ */
+export type DecodedEvent = {
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber?: bigint;
+  transactionHash?: Hex;
+  logIndex?: number;
+};
+
+export type SendResult = {
+  hash: Hex;
+  from: Hex;
+  functionName: string;
+  args: readonly unknown[];
+  /** Wei sent with the call */
+  value: bigint;
+  blockNumber: bigint;
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  /** L1 data fee charged on top of gasUsed × effectiveGasPrice by OP-stack style rollups */
+  l1Fee?: bigint;
+  events: DecodedEvent[];
+};
+
+/** EIP-1559 fee caps for one submission */
+export type FeeCaps = { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint };
+
+/**
+ * How adapters price transactions. `zero` sends gasPrice 0 so balance assertions are exact (Anvil with
+ * --base-fee 0); `market` bids the node's fee estimate scaled by `multiplierPct` and replaces txs
+ * that stay pending (see txPipeline.ts).
+ */
+export type FeePolicy =
+  | { mode: 'zero' }
+  | {
+      mode: 'market';
+      multiplierPct?: number;
+      /** Never bid above this, including replacements */
+      maxFeePerGas?: bigint;
+      /** Replace a tx still pending after this long (default 45s) */
+      replaceAfterMs?: number;
+      /** Fee increase per replacement; nodes require at least 10% (default 15) */
+      bumpPercent?: number;
+      /** Waits of replaceAfterMs before a pending tx is given up as stuck (default 5) */
+      maxAttempts?: number;
+    };
+
+/** Zero-fee on Anvil, 1.3x the estimate elsewhere */
+export function defaultFeePolicy(isLocal: boolean): FeePolicy {
+  return isLocal ? { mode: 'zero' } : { mode: 'market', multiplierPct: 130 };
+}
+
+/** Scale a node fee estimate by the policy's multiplier, capped at its maxFeePerGas */
+export function scaleFee(policy: Extract<FeePolicy, { mode: 'market' }>, estimate: bigint): bigint {
+  const scaled = (estimate * BigInt(policy.multiplierPct ?? 130)) / 100n;
+  return policy.maxFeePerGas !== undefined && scaled > policy.maxFeePerGas ? policy.maxFeePerGas : scaled;
+}
+
+export type SubmitOptions = {
+  /** Reuse the nonce of a pending tx to replace it */
+  nonce?: number;
+  /** Explicit caps instead of the adapter's fee policy */
+  fees?: FeeCaps;
+};
+
+/** Per-call overrides for ChainAdapter.send */
+export type SendOptions = {
+  /** Replace a tx still pending after this long; set, it replaces even under the zero-fee policy */
+  replaceAfterMs?: number;
+  /** Fee increase per replacement */
+  bumpPercent?: bigint;
+  /** Never bid above this */
+  maxFeePerGas?: bigint;
+  /** Checked while a submission is pending; once true, send stops with an `expired` TxError instead of counting attempts */
+  expired?: () => Promise<boolean>;
+  /** Called after every broadcast, replacements included, with the number of submissions so far */
+  onBroadcast?: (tx: PendingTx, submissions: number) => void;
+};
+
+/** A broadcast tx whose receipt has not been awaited yet */
+export type PendingTx = Pick<SendResult, 'hash' | 'from' | 'functionName' | 'args' | 'value'> & {
+  nonce: number;
+  fees?: FeeCaps;
+};
+
+export type LogQuery = {
+  eventName?: string;
+  /** Every RockPaperScissors event indexes gameId first */
+  gameId?: bigint;
+  fromBlock: bigint;
+  toBlock?: bigint;
+};
+
+/**
+ * Library-neutral access to the chain and the RockPaperScissors contract.
+ * Implemented by makeViemAdapter and makeEthersAdapter so scenarios run unchanged on either.
+ */
+export interface ChainAdapter {
+  readonly library: 'viem' | 'ethers';
+  readonly contract: Hex;
+  readonly isLocal: boolean;
+  /** Accounts this adapter can sign for, in PRIVATE_KEY order */
+  readonly accounts: readonly Hex[];
+
+  chainId(): Promise<number>;
+
+  // Contract
+  /** Simulate, broadcast and wait, replacing the tx while it stays pending; failures are thrown as TxError */
+  send(from: Hex, functionName: string, args: unknown[], value?: bigint, opts?: SendOptions): Promise<SendResult>;
+  /** eth_call the write from `from`; throws the library's error if it would revert */
+  simulate(from: Hex, functionName: string, args: unknown[], value?: bigint): Promise<void>;
+  /** Broadcast without simulating or waiting for the receipt */
+  submit(from: Hex, functionName: string, args: unknown[], value?: bigint, opts?: SubmitOptions): Promise<PendingTx>;
+  /** Result of a submitted tx, or undefined while it is pending; throws a `reverted` TxError */
+  receipt(tx: PendingTx): Promise<SendResult | undefined>;
+  /** Fee caps the adapter would use now; undefined on Anvil, where txs are zero-fee legacy */
+  feeCaps(): Promise<FeeCaps | undefined>;
+  read<T = unknown>(functionName: string, args: unknown[]): Promise<T>;
+  getLogs(query: LogQuery): Promise<DecodedEvent[]>;
+
+  // Balances
+  getBalance(address: Hex): Promise<bigint>;
+  /** Anvil only */
+  setBalance(address: Hex, value: bigint): Promise<void>;
+
+  // Time and state control
+  blockNumber(): Promise<bigint>;
+  /** Latest block timestamp */
+  now(): Promise<bigint>;
+  /** Timestamp of a mined block, i.e. block.timestamp for the txs in it */
+  blockTimestamp(blockNumber: bigint): Promise<bigint>;
+  /** Anvil only */
+  increaseTime(seconds: bigint): Promise<void>;
+  /** Anvil only */
+  mine(): Promise<void>;
+  /** Anvil only: exact timestamp of the next mined block */
+  setNextBlockTimestamp(timestamp: bigint): Promise<void>;
+  /** Anvil only: returns an evm_snapshot id */
+  snapshot(): Promise<Hex>;
+  /** Anvil only */
+  revert(snapshotId: Hex): Promise<void>;
+}
+
+function formatArg(v: unknown): string {
+  return typeof v === 'string' ? v.toLowerCase() : String(v);
+}
+
+/** Event name plus args in ABI order, e.g. GameResolved(gameId=3,winner=0xf39f...,move1=1,move2=0) */
+export function formatEvent(e: Pick<DecodedEvent, 'eventName' | 'args'>): string {
+  return `${e.eventName}(${Object.entries(e.args).map(([k, v]) => `${k}=${formatArg(v)}`).join(',')})`;
+}
+
+/** Parse an optional receipt quantity (hex string, number or bigint) */
+export function optionalBigInt(v: unknown): bigint | undefined {
+  if (v === undefined || v === null || v === '') return undefined;
+  return BigInt(v as string | number | bigint);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function requireLocal(isLocal: boolean, library: string, method: string) {
+  if (!isLocal) throw new Error(`${method} is only available on Anvil (${library} adapter is on a live network)`);
+}
+
+/**
+ * Move chain time past `deadline`: warp 1 second past it on Anvil,
+ * otherwise poll until a block with a later timestamp is mined.
+ */
+export async function advancePast(adapter: ChainAdapter, deadline: bigint, pollMs = 15_000): Promise<void> {
+  let now = await adapter.now();
+  if (adapter.isLocal) {
+    if (now <= deadline) {
+      await adapter.increaseTime(deadline - now + 1n);
+      await adapter.mine();
+    }
+    return;
+  }
+  while (now <= deadline) {
+    await sleep(pollMs);
+    now = await adapter.now();
+  }
+}
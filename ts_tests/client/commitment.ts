@@ -0,0 +1,47 @@
+import { keccak256, encodePacked } from 'viem';
+import { solidityPackedKeccak256 } from 'ethers';
+import { Move } from './gameView.js';
+
+type Hex = `0x${string}`;
+
+/** What a player keeps secret until reveal: reveal(gameId, move, salt, nonce) */
+export type CommitSecret = { move: number; salt: Hex; nonce: Hex };
+
+/** One entry of ts_tests/fixtures/commitment-vectors.json */
+export type CommitmentVector = CommitSecret & { name: string; commitment: Hex };
+
+/** A secret as it arrives from JSON or user input, before assertCommitSecret has checked it */
+export type UncheckedSecret = { move: number; salt: string; nonce: string };
+
+/** An input every implementation must refuse instead of hashing */
+export type RejectedSecret = UncheckedSecret & { name: string };
+
+export type CommitmentVectors = { vectors: CommitmentVector[]; rejected: RejectedSecret[] };
+
+const BYTES32 = /^0x[0-9a-fA-F]{64}$/;
+
+/**
+ * Throw unless `secret` is something reveal() accepts: a Move the enum can decode (0-2) and a salt and
+ * nonce of exactly 32 bytes. Packing pads or truncates nothing for bytes32, so a 31-byte salt would hash
+ * to a commitment whose reveal can never be ABI-encoded to match.
+ */
+export function assertCommitSecret(secret: UncheckedSecret): asserts secret is CommitSecret {
+  if (!Number.isInteger(secret.move) || Move[secret.move] === undefined) {
+    throw new Error(`Invalid move ${secret.move}: expected ${Move.ROCK} (ROCK), ${Move.PAPER} (PAPER) or ${Move.SCISSORS} (SCISSORS)`);
+  }
+  for (const field of ['salt', 'nonce'] as const) {
+    if (!BYTES32.test(secret[field])) throw new Error(`Invalid ${field} ${secret[field]}: expected 0x followed by 64 hex digits`);
+  }
+}
+
+/** keccak256(abi.encodePacked(move, salt, nonce)), exactly as RockPaperScissors._commitHash computes it; throws on an invalid secret */
+export function commitmentOf(secret: UncheckedSecret): Hex {
+  assertCommitSecret(secret);
+  return keccak256(encodePacked(['uint8', 'bytes32', 'bytes32'], [secret.move, secret.salt, secret.nonce]));
+}
+
+/** The same hash through ethers' solidityPacked, for clients that do not bundle viem */
+export function ethersCommitmentOf(secret: UncheckedSecret): Hex {
+  assertCommitSecret(secret);
+  return solidityPackedKeccak256(['uint8', 'bytes32', 'bytes32'], [secret.move, secret.salt, secret.nonce]) as Hex;
+}
@@ -0,0 +1,38 @@
+import type { Chain } from 'viem';
+import type { FeePolicy } from './chainAdapter.js';
+
+/** Where a profile's player accounts come from */
+export type PlayerSource =
+  /** Raw 0x private keys in player order; unset entries (e.g. an empty PRIVATE_KEY_2) are dropped */
+  | { privateKeys: (string | undefined)[] }
+  /** Accounts m/44'/60'/0'/0/0 .. count-1 of a BIP-39 mnemonic (count defaults to 2) */
+  | { mnemonic: string; count?: number };
+
+/** One named environment, selected with `--env <name>` */
+export type EnvProfile = {
+  /** viem chain definition; the RPC must report the same chainId or the runners refuse to start */
+  chain: Chain;
+  rpcUrl?: string;
+  /** Anvil-only calls (time warps, setBalance, snapshots) are allowed; default: chain id 31337 */
+  local?: boolean;
+  contractAddress?: string;
+  /** Block the contract was deployed in; log scans start here */
+  deploymentBlock?: string | number | bigint;
+  /** Default: zero-fee when local, 1.3x the estimate elsewhere */
+  fees?: FeePolicy;
+  /** Blocks an event must be buried under before the indexer trusts it (default: 0 local, 2 elsewhere) */
+  confirmations?: number | bigint;
+  /** Default: MNEMONIC and PLAYER_COUNT from .env, else PRIVATE_KEY and PRIVATE_KEY_2 */
+  players?: PlayerSource;
+  /** Compare the contract's runtime code with the forge artifact on startup (default: true) */
+  verifyBytecode?: boolean;
+};
+
+export type RpsConfig = {
+  profiles: Record<string, EnvProfile>;
+};
+
+/** Identity helper so rps.config.ts is type-checked against RpsConfig */
+export function defineConfig(config: RpsConfig): RpsConfig {
+  return config;
+}
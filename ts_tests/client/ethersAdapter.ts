@@ -0,0 +1,220 @@
+import { Contract, Interface, JsonRpcProvider, Signer, NonceManager, EventFragment, Log, TransactionReceipt, getAddress, toQuantity } from 'ethers';
+import { ChainAdapter, DecodedEvent, FeePolicy, SendResult, PendingTx, requireLocal, optionalBigInt, defaultFeePolicy, scaleFee } from './chainAdapter.js';
+import { createTxPipeline, txError, caps, TxBackend, TxFees, TxRequest } from './txPipeline.js';
+
+type Hex = `0x${string}`;
+
+async function getFees(provider: JsonRpcProvider, policy: FeePolicy): Promise<TxFees> {
+  if (policy.mode === 'zero') return { gasPrice: 0n }; // Exact balance assertions on Anvil
+  const fee = await provider.getFeeData();
+  if (fee.maxFeePerGas && fee.maxPriorityFeePerGas) {
+    const maxFeePerGas = scaleFee(policy, fee.maxFeePerGas);
+    const priority = scaleFee(policy, fee.maxPriorityFeePerGas);
+    return { maxFeePerGas, maxPriorityFeePerGas: priority > maxFeePerGas ? maxFeePerGas : priority };
+  }
+  return { gasPrice: scaleFee(policy, fee.gasPrice ?? 0n) };
+}
+
+// Match viem's decoding: uint8 enums as numbers, wider uints as bigint, checksummed addresses
+function normalizeArgs(fragment: EventFragment, values: readonly unknown[]): Record<string, unknown> {
+  const args: Record<string, unknown> = {};
+  fragment.inputs.forEach((input, i) => {
+    const v = values[i];
+    if (input.type === 'address') args[input.name] = getAddress(v as string);
+    else if (input.type === 'uint8') args[input.name] = Number(v);
+    else if (input.type.startsWith('uint') || input.type.startsWith('int')) args[input.name] = BigInt(v as bigint);
+    else args[input.name] = v;
+  });
+  return args;
+}
+
+export function parseRpsLogs(iface: Interface, address: Hex, logs: readonly Log[]): DecodedEvent[] {
+  const decoded: DecodedEvent[] = [];
+  for (const log of logs) {
+    if (log.address.toLowerCase() !== address.toLowerCase()) continue;
+    try {
+      const p = iface.parseLog(log);
+      if (!p) continue;
+      decoded.push({
+        eventName: p.name,
+        args: normalizeArgs(p.fragment, p.args),
+        blockNumber: BigInt(log.blockNumber),
+        transactionHash: log.transactionHash as Hex,
+        logIndex: log.index
+      });
+    } catch {}
+  }
+  return decoded;
+}
+
+/**
+ * ethers implementation of ChainAdapter. `signers` may be NonceManager-wrapped Wallets; the tx pipeline
+ * tracks nonces itself and sends through the wrapped signer.
+ * `policy` prices transactions (default: zero-fee on Anvil, 1.3x the estimate elsewhere).
+ */
+export async function makeEthersAdapter(provider: JsonRpcProvider, signers: Signer[], address: Hex, abi: any, isLocal: boolean, policy: FeePolicy = defaultFeePolicy(isLocal)): Promise<ChainAdapter> {
+  if (signers.length === 0) throw new Error('makeEthersAdapter needs at least one signer');
+  const iface = new Interface(abi);
+  const accounts = await Promise.all(signers.map(async s => (await s.getAddress()) as Hex));
+  const reader = new Contract(address, abi, provider);
+
+  function signerFor(from: Hex): Signer {
+    const i = accounts.findIndex(a => a.toLowerCase() === from.toLowerCase());
+    if (i < 0) throw new Error(`ethers adapter has no signer for ${from}`);
+    // NonceManager would overwrite the pipeline's nonce, which breaks replacements
+    const signer = signers[i];
+    return signer instanceof NonceManager ? signer.signer : signer;
+  }
+
+  function contractFor(from: Hex): Contract {
+    return new Contract(address, abi, signerFor(from));
+  }
+
+  async function toResult(tx: Pick<SendResult, 'hash' | 'from' | 'functionName' | 'args' | 'value'>, receipt: TransactionReceipt): Promise<SendResult> {
+    if (receipt.status !== 1) {
+      throw txError(tx, { kind: 'reverted', hash: tx.hash, blockNumber: BigInt(receipt.blockNumber), gasUsed: receipt.gasUsed });
+    }
+    // ethers drops non-standard receipt fields, so read l1Fee from the raw receipt on live networks
+    const raw = isLocal ? undefined : await provider.send('eth_getTransactionReceipt', [tx.hash]);
+    return {
+      ...tx,
+      l1Fee: optionalBigInt(raw?.l1Fee),
+      blockNumber: BigInt(receipt.blockNumber),
+      gasUsed: receipt.gasUsed,
+      effectiveGasPrice: receipt.gasPrice ?? 0n,
+      events: parseRpsLogs(iface, address, receipt.logs)
+    };
+  }
+
+  async function estimateWithBuffer(rps: Contract, method: string, args: unknown[], value?: bigint): Promise<bigint> {
+    try {
+      const gas: bigint = await rps.getFunction(method).estimateGas(...args, { value });
+      // Only apply 1.3x buffer on Sepolia (not Anvil)
+      return isLocal ? gas : (gas * 13n) / 10n;
+    } catch {
+      return isLocal ? 1_500_000n : 300_000n;
+    }
+  }
+
+  const backend: TxBackend = {
+    async simulate({ from, functionName, args, value }) {
+      await contractFor(from).getFunction(functionName).staticCall(...args, { value });
+    },
+    estimateGas: ({ from, functionName, args, value }) => estimateWithBuffer(contractFor(from), functionName, args as unknown[], value),
+    async broadcast({ from, functionName, args, value }, { nonce, gas, fees }) {
+      const tx = await contractFor(from).getFunction(functionName).send(...args, { value, gasLimit: gas, nonce, ...fees });
+      return tx.hash as Hex;
+    },
+    async receipt(tx) {
+      const receipt = await provider.getTransactionReceipt(tx.hash);
+      return receipt ? toResult(tx, receipt) : undefined;
+    },
+    async known(hash) {
+      return (await provider.getTransaction(hash)) !== null;
+    },
+    nonceAt: (from, blockTag) => provider.getTransactionCount(from, blockTag),
+    fees: () => getFees(provider, policy)
+  };
+  const pipeline = createTxPipeline(backend, policy);
+  const request = (from: Hex, functionName: string, args: unknown[], value?: bigint): TxRequest =>
+    ({ from, functionName, args, value: value ?? 0n });
+
+  return {
+    library: 'ethers',
+    contract: address,
+    isLocal,
+    accounts,
+
+    async chainId() {
+      return Number((await provider.getNetwork()).chainId);
+    },
+
+    async send(from, method, args, value, opts) {
+      return pipeline.send(request(from, method, args, value), opts);
+    },
+
+    async simulate(from, method, args, value) {
+      return backend.simulate(request(from, method, args, value));
+    },
+
+    async submit(from, method, args, value, opts) {
+      return pipeline.submit(request(from, method, args, value), opts);
+    },
+
+    async receipt(tx: PendingTx) {
+      return backend.receipt(tx);
+    },
+
+    async feeCaps() {
+      return caps(await getFees(provider, policy));
+    },
+
+    async read<T>(method: string, args: unknown[]) {
+      return await reader.getFunction(method).staticCall(...args) as T;
+    },
+
+    async getLogs({ eventName, gameId, fromBlock, toBlock }) {
+      let topics: Array<string | string[] | null> | undefined;
+      if (eventName) {
+        const event = iface.getEvent(eventName);
+        if (!event) throw new Error(`Unknown event ${eventName}`);
+        topics = iface.encodeFilterTopics(event, gameId !== undefined ? [gameId] : []);
+      }
+      const logs = await provider.getLogs({ address, topics, fromBlock, toBlock: toBlock ?? 'latest' });
+      const decoded = parseRpsLogs(iface, address, logs);
+      // Without an event filter the topic filter cannot be applied server-side
+      return gameId !== undefined && !eventName ? decoded.filter(e => e.args.gameId === gameId) : decoded;
+    },
+
+    async getBalance(addr) {
+      return provider.getBalance(addr);
+    },
+
+    async setBalance(addr, value) {
+      requireLocal(isLocal, 'ethers', 'setBalance');
+      await provider.send('anvil_setBalance', [addr, toQuantity(value)]);
+    },
+
+    async blockNumber() {
+      return BigInt(await provider.getBlockNumber());
+    },
+
+    async now() {
+      return BigInt((await provider.getBlock('latest'))?.timestamp ?? 0);
+    },
+
+    async blockTimestamp(blockNumber) {
+      const block = await provider.getBlock(blockNumber);
+      if (!block) throw new Error(`Block ${blockNumber} not found`);
+      return BigInt(block.timestamp);
+    },
+
+    async increaseTime(seconds) {
+      requireLocal(isLocal, 'ethers', 'increaseTime');
+      await provider.send('evm_increaseTime', [Number(seconds)]);
+    },
+
+    async mine() {
+      requireLocal(isLocal, 'ethers', 'mine');
+      await provider.send('evm_mine', []);
+    },
+
+    async setNextBlockTimestamp(timestamp) {
+      requireLocal(isLocal, 'ethers', 'setNextBlockTimestamp');
+      await provider.send('evm_setNextBlockTimestamp', [Number(timestamp)]);
+    },
+
+    async snapshot() {
+      requireLocal(isLocal, 'ethers', 'snapshot');
+      return (await provider.send('evm_snapshot', [])) as Hex;
+    },
+
+    async revert(id) {
+      requireLocal(isLocal, 'ethers', 'revert');
+      const ok = await provider.send('evm_revert', [id]);
+      if (!ok) throw new Error(`evm_revert(${id}) failed: unknown or already used snapshot`);
+      // Account nonces went back with the chain
+      pipeline.resetNonces();
+    }
+  };
+}
@@ -0,0 +1,140 @@
+type Hex = `0x${string}`;
+
+/** Mirrors RockPaperScissors.Move */
+export enum Move {
+  ROCK = 0,
+  PAPER = 1,
+  SCISSORS = 2
+}
+
+/** Mirrors RockPaperScissors.GameStatus */
+export enum GameStatus {
+  WAITING = 0,
+  REVEAL_PHASE = 1,
+  TIE_RESOLUTION = 2,
+  COMPLETED = 3,
+  CANCELLED = 4
+}
+
+/** Mirrors RockPaperScissors.TieChoice */
+export enum TieChoice {
+  NONE = 0,
+  REMATCH = 1,
+  SPLIT = 2
+}
+
+export type PlayerSlot = 'player1' | 'player2';
+
+export const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000' as Hex;
+
+/**
+ * Typed view of a Game struct.
+ * `games(gameId)` is the auto-generated getter, which omits the fixed-size arrays,
+ * so commitments/reveals/revealed/tieChoices are only present when decoded from `getGame(gameId)`.
+ */
+export type GameView = {
+  player1: Hex;
+  player2: Hex;
+  stake: bigint;
+  revealDeadline: bigint;
+  tieResolutionDeadline: bigint;
+  status: GameStatus;
+  commitments?: readonly [Hex, Hex];
+  reveals?: readonly [Move, Move];
+  revealed?: readonly [boolean, boolean];
+  tieChoices?: readonly [TieChoice, TieChoice];
+  /** False until somebody joined (player2 stays set after a rematch reset) */
+  hasOpponent: boolean;
+  /** Players that still have to reveal; undefined outside REVEAL_PHASE or without getGame data */
+  pendingReveals?: PlayerSlot[];
+  /** revealDeadline in REVEAL_PHASE, tieResolutionDeadline in TIE_RESOLUTION, otherwise 0n */
+  activeDeadline: bigint;
+  /** activeDeadline - now (negative once passed); only set when `now` is given and a deadline is active */
+  secondsUntilDeadline?: bigint;
+};
+
+// Field order of the Game struct in RockPaperScissors.sol
+const GET_GAME_FIELDS = [
+  'player1', 'player2', 'stake', 'commitments', 'reveals', 'revealed',
+  'revealDeadline', 'tieResolutionDeadline', 'tieChoices', 'status'
+] as const;
+
+// Output order of the auto-generated `games(uint256)` getter
+const GAMES_FIELDS = [
+  'player1', 'player2', 'stake', 'revealDeadline', 'tieResolutionDeadline', 'status'
+] as const;
+
+function pair<T>(v: any, map: (x: any) => T): readonly [T, T] {
+  return [map(v[0]), map(v[1])];
+}
+
+/**
+ * Normalise a raw read into named fields. Handles:
+ * - viem `getGame` (named object) and `games` (positional array of 6)
+ * - ethers `Result` for either call (array-like with named getters)
+ */
+function toNamed(raw: any): Record<string, any> {
+  if (raw == null) throw new Error('decodeGame: empty game result');
+  if (!Array.isArray(raw)) return raw;
+  // ethers Result exposes names alongside positions; prefer them when present
+  if ((raw as any).player1 !== undefined && (raw as any).status !== undefined) {
+    const named: Record<string, any> = {};
+    const fields = raw.length === GET_GAME_FIELDS.length ? GET_GAME_FIELDS : GAMES_FIELDS;
+    for (const f of fields) named[f] = (raw as any)[f];
+    return named;
+  }
+  let fields: readonly string[];
+  if (raw.length === GET_GAME_FIELDS.length) fields = GET_GAME_FIELDS;
+  else if (raw.length === GAMES_FIELDS.length) fields = GAMES_FIELDS;
+  else throw new Error(`decodeGame: unexpected tuple length ${raw.length}`);
+  const named: Record<string, any> = {};
+  fields.forEach((f, i) => { named[f] = raw[i]; });
+  return named;
+}
+
+/**
+ * Decode the result of `games(gameId)` or `getGame(gameId)` from viem or ethers into a GameView.
+ * @param now Chain timestamp used to derive `secondsUntilDeadline`
+ */
+export function decodeGame(raw: unknown, now?: bigint): GameView {
+  const g = toNamed(raw);
+  const status = Number(g.status) as GameStatus;
+  const revealDeadline = BigInt(g.revealDeadline);
+  const tieResolutionDeadline = BigInt(g.tieResolutionDeadline);
+
+  const view: GameView = {
+    player1: String(g.player1) as Hex,
+    player2: String(g.player2) as Hex,
+    stake: BigInt(g.stake),
+    revealDeadline,
+    tieResolutionDeadline,
+    status,
+    hasOpponent: String(g.player2).toLowerCase() !== ZERO_ADDRESS,
+    activeDeadline:
+      status === GameStatus.REVEAL_PHASE ? revealDeadline :
+      status === GameStatus.TIE_RESOLUTION ? tieResolutionDeadline : 0n
+  };
+
+  if (g.commitments !== undefined) {
+    view.commitments = pair(g.commitments, x => String(x) as Hex);
+    view.reveals = pair(g.reveals, x => Number(x) as Move);
+    view.revealed = pair(g.revealed, x => Boolean(x));
+    view.tieChoices = pair(g.tieChoices, x => Number(x) as TieChoice);
+    if (status === GameStatus.REVEAL_PHASE) {
+      view.pendingReveals = [];
+      if (!view.revealed[0]) view.pendingReveals.push('player1');
+      if (!view.revealed[1]) view.pendingReveals.push('player2');
+    }
+  }
+
+  if (now !== undefined && view.activeDeadline > 0n) {
+    view.secondsUntilDeadline = view.activeDeadline - now;
+  }
+  return view;
+}
+
+/** Contract's _determineWinner: 0 = tie, 1 = player1, 2 = player2 */
+export function determineWinner(move1: Move, move2: Move): 0 | 1 | 2 {
+  if (move1 === move2) return 0;
+  return (move1 - move2 + 3) % 3 === 1 ? 1 : 2;
+}
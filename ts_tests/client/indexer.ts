@@ -0,0 +1,232 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ChainAdapter, DecodedEvent } from './chainAdapter.js';
+import { GameStatus, ZERO_ADDRESS } from './gameView.js';
+
+type Hex = `0x${string}`;
+
+export type IndexedEvent = {
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber: bigint;
+  transactionHash: Hex;
+  logIndex: number;
+};
+
+/**
+ * A game as reconstructed from its events. `status` is derived: the post-deadline auto-split in
+ * handleTie emits nothing, so such a game stays TIE_RESOLUTION here until read with getGame.
+ */
+export type IndexedGame = {
+  gameId: bigint;
+  player1: Hex;
+  player2?: Hex;
+  stake: bigint;
+  status: GameStatus;
+  createdBlock: bigint;
+  updatedBlock: bigint;
+  events: IndexedEvent[];
+};
+
+export type IndexerOptions = {
+  /** Deployment block of the contract; nothing before it is scanned */
+  fromBlock: bigint;
+  filePath?: string;
+  /** Blocks per eth_getLogs request; halved automatically when the RPC rejects a range */
+  chunkSize?: bigint;
+  /** Stay this many blocks behind the head so shallow reorgs never reach the store */
+  confirmations?: bigint;
+};
+
+export type SyncResult = { fromBlock: bigint; toBlock: bigint; events: number; requests: number };
+
+export interface GameIndexer {
+  readonly path: string;
+  /** Last block fully indexed, or undefined before the first sync */
+  cursor(): bigint | undefined;
+  /** Index from the cursor (or the deployment block) up to head - confirmations */
+  sync(onProgress?: (toBlock: bigint, head: bigint) => void): Promise<SyncResult>;
+  game(gameId: bigint): IndexedGame | undefined;
+  games(): IndexedGame[];
+  /** Games where `player` is player 1 or player 2 */
+  gamesByPlayer(player: Hex): IndexedGame[];
+  /** WAITING games nobody has joined (a game reset by a rematch keeps player2 and cannot be joined) */
+  openGames(): IndexedGame[];
+  /** Every event of game N in chain order */
+  timeline(gameId: bigint): IndexedEvent[];
+}
+
+type IndexFile = {
+  version: 1;
+  chainId: number;
+  contract: Hex;
+  fromBlock: bigint;
+  cursor?: bigint;
+  games: IndexedGame[];
+};
+
+const MIN_CHUNK = 1n;
+
+// bigints are stored as "123n" strings so the file stays plain JSON
+function replacer(_key: string, value: unknown) {
+  return typeof value === 'bigint' ? `${value}n` : value;
+}
+
+function reviver(_key: string, value: unknown) {
+  return typeof value === 'string' && /^\d+n$/.test(value) ? BigInt(value.slice(0, -1)) : value;
+}
+
+function same(a: string, b: string) {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function byChainOrder(a: IndexedEvent, b: IndexedEvent) {
+  return a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1;
+}
+
+/** Fold one event into its game; events must arrive in chain order */
+function apply(games: Map<bigint, IndexedGame>, e: IndexedEvent, txEvents: IndexedEvent[]) {
+  const gameId = e.args.gameId as bigint;
+  if (e.eventName === 'GameCreated') {
+    games.set(gameId, {
+      gameId,
+      player1: e.args.player1 as Hex,
+      stake: e.args.stake as bigint,
+      status: GameStatus.WAITING,
+      createdBlock: e.blockNumber,
+      updatedBlock: e.blockNumber,
+      events: [e]
+    });
+    return;
+  }
+  const g = games.get(gameId);
+  if (!g) return; // created before fromBlock
+  if (g.events.some(x => x.transactionHash === e.transactionHash && x.logIndex === e.logIndex)) return;
+  g.events.push(e);
+  g.updatedBlock = e.blockNumber;
+
+  switch (e.eventName) {
+    case 'GameJoined':
+      g.player2 = e.args.player2 as Hex;
+      g.status = GameStatus.REVEAL_PHASE;
+      break;
+    case 'GameResolved': {
+      // GameResolved(0) right after a GameRevealed in the same tx is a tie entering TIE_RESOLUTION;
+      // from claimAfterRevealTimeout (no reveal in the tx) it is a completed split
+      const tieFromReveal = same(e.args.winner as string, ZERO_ADDRESS) &&
+        txEvents.some(x => x.eventName === 'GameRevealed' && x.logIndex < e.logIndex);
+      g.status = tieFromReveal ? GameStatus.TIE_RESOLUTION : GameStatus.COMPLETED;
+      break;
+    }
+    case 'TieHandled':
+      g.status = e.args.isRematch ? GameStatus.WAITING : GameStatus.COMPLETED;
+      break;
+    case 'GameCancelled':
+      g.status = GameStatus.CANCELLED;
+      break;
+  }
+}
+
+/**
+ * Open (or create) the file-backed index for the adapter's contract.
+ * Default store: .rps/index-<chainId>-<contract>.json
+ */
+export async function openIndexer(adapter: ChainAdapter, opts: IndexerOptions): Promise<GameIndexer> {
+  const chainId = await adapter.chainId();
+  const resolved = path.resolve(opts.filePath ?? path.join('.rps', `index-${chainId}-${adapter.contract.toLowerCase()}.json`));
+  const confirmations = opts.confirmations ?? 0n;
+  let chunkSize = opts.chunkSize ?? 2000n;
+
+  let cursor: bigint | undefined;
+  const games = new Map<bigint, IndexedGame>();
+  try {
+    const file = JSON.parse(await fs.readFile(resolved, 'utf-8'), reviver) as IndexFile;
+    if (file.version !== 1) throw new Error(`Unsupported index version ${file.version}`);
+    if (file.chainId !== chainId || !same(file.contract, adapter.contract)) {
+      throw new Error(`Index ${resolved} belongs to ${file.contract} on chain ${file.chainId}`);
+    }
+    // A different deployment block invalidates the cursor
+    if (file.fromBlock === opts.fromBlock) {
+      cursor = file.cursor;
+      for (const g of file.games) games.set(g.gameId, g);
+    }
+  } catch (err: any) {
+    if (err?.code !== 'ENOENT') throw err;
+  }
+
+  // Write to a temp file and rename so a crash mid-write never truncates the index
+  async function persist() {
+    await fs.mkdir(path.dirname(resolved), { recursive: true });
+    const file: IndexFile = { version: 1, chainId, contract: adapter.contract, fromBlock: opts.fromBlock, cursor, games: [...games.values()] };
+    const tmp = `${resolved}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(file, replacer, 2));
+    await fs.rename(tmp, resolved);
+  }
+
+  // Returns the block range actually covered, which shrinks when the RPC rejects the window
+  async function fetchChunk(from: bigint, to: bigint): Promise<{ events: DecodedEvent[]; to: bigint; requests: number }> {
+    let requests = 0;
+    for (;;) {
+      requests++;
+      try {
+        return { events: await adapter.getLogs({ fromBlock: from, toBlock: to }), to, requests };
+      } catch (err) {
+        // Range too large or rate limited: retry the same start with a smaller window
+        if (to - from + 1n <= MIN_CHUNK) throw err;
+        chunkSize = chunkSize / 2n > MIN_CHUNK ? chunkSize / 2n : MIN_CHUNK;
+        to = from + chunkSize - 1n;
+      }
+    }
+  }
+
+  const list = () => [...games.values()].sort((a, b) => (a.gameId < b.gameId ? -1 : 1));
+
+  return {
+    path: resolved,
+
+    cursor() {
+      return cursor;
+    },
+
+    async sync(onProgress) {
+      const head = (await adapter.blockNumber()) - confirmations;
+      const start = cursor !== undefined ? cursor + 1n : opts.fromBlock;
+      let events = 0;
+      let requests = 0;
+      let from = start;
+      while (from <= head) {
+        const to = from + chunkSize - 1n < head ? from + chunkSize - 1n : head;
+        const chunk = await fetchChunk(from, to);
+        requests += chunk.requests;
+        const ordered = chunk.events
+          .filter((e): e is IndexedEvent => e.blockNumber !== undefined && e.transactionHash !== undefined && e.logIndex !== undefined)
+          .sort(byChainOrder);
+        for (const e of ordered) apply(games, e, ordered.filter(x => x.transactionHash === e.transactionHash));
+        events += ordered.length;
+        cursor = chunk.to;
+        await persist();
+        onProgress?.(chunk.to, head);
+        from = chunk.to + 1n;
+      }
+      return { fromBlock: start, toBlock: cursor ?? start - 1n, events, requests };
+    },
+
+    game(gameId) {
+      return games.get(gameId);
+    },
+
+    games: list,
+
+    gamesByPlayer(player) {
+      return list().filter(g => same(g.player1, player) || (g.player2 !== undefined && same(g.player2, player)));
+    },
+
+    openGames() {
+      return list().filter(g => g.status === GameStatus.WAITING && g.player2 === undefined);
+    },
+
+    timeline(gameId) {
+      return [...(games.get(gameId)?.events ?? [])];
+    }
+  };
+}
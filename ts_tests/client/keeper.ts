@@ -0,0 +1,242 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ChainAdapter } from './chainAdapter.js';
+import { GameIndexer } from './indexer.js';
+import { makeRpsClient, TxResult } from './rpsClient.js';
+import { GameStatus, TieChoice } from './gameView.js';
+
+type Hex = `0x${string}`;
+
+/** A game the keeper is watching until its deadline passes */
+export type TrackedGame = {
+  gameId: bigint;
+  status: GameStatus.REVEAL_PHASE | GameStatus.TIE_RESOLUTION;
+  deadline: bigint;
+  attempts: number;
+  lastError?: string;
+  /** Chain time before which a failed finalization is not retried */
+  retryAfter?: bigint;
+};
+
+export type Finalization = {
+  gameId: bigint;
+  functionName: 'claimAfterRevealTimeout' | 'handleTie';
+  hash: Hex;
+  blockNumber: bigint;
+  at: string;
+};
+
+export type TickResult = {
+  finalized: Finalization[];
+  failed: { gameId: bigint; error: string }[];
+  tracked: TrackedGame[];
+  /** Earliest deadline still ahead, if any */
+  nextDeadline?: bigint;
+};
+
+export type KeeperOptions = {
+  /** Discovers games; the keeper reads getGame for anything it reports in REVEAL_PHASE/TIE_RESOLUTION */
+  indexer: GameIndexer;
+  filePath?: string;
+  /** Account that pays for finalizing txs (defaults to the adapter's first account) */
+  account?: Hex;
+  /** Failed finalizations per game before the keeper stops retrying it (default 5) */
+  maxAttempts?: number;
+  /** Wait after the first failure, in seconds; doubles with every further failure up to 1 hour (default 15) */
+  retryBaseSeconds?: number;
+  log?: (message: string) => void;
+};
+
+export type RunOptions = {
+  signal?: AbortSignal;
+  /** Upper bound between ticks, in ms (new games are only discovered on a tick) */
+  pollMs?: number;
+  /** Lower bound between ticks, in ms, so a deadline just passed on-chain does not spin the loop */
+  minSleepMs?: number;
+};
+
+export interface Keeper {
+  readonly path: string;
+  tracked(): TrackedGame[];
+  finalized(): Finalization[];
+  /** Discover games, refresh their state and finalize every one whose deadline has passed */
+  tick(): Promise<TickResult>;
+  /** Tick until `signal` aborts, sleeping until the next deadline (bounded by pollMs) */
+  run(opts?: RunOptions): Promise<void>;
+}
+
+type KeeperFile = {
+  version: 1;
+  chainId: number;
+  contract: Hex;
+  tracked: TrackedGame[];
+  /** Games seen COMPLETED or CANCELLED; never read again */
+  closed: bigint[];
+  finalized: Finalization[];
+};
+
+// Same "123n" encoding as the index so bigints survive a restart
+function replacer(_key: string, value: unknown) {
+  return typeof value === 'bigint' ? `${value}n` : value;
+}
+
+function reviver(_key: string, value: unknown) {
+  return typeof value === 'string' && /^\d+n$/.test(value) ? BigInt(value.slice(0, -1)) : value;
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+  });
+}
+
+/**
+ * Keeper that settles games nobody finalized: claimAfterRevealTimeout once isRevealDeadlinePassed,
+ * and handleTie(SPLIT) after tieResolutionDeadline (the contract checks that deadline before the
+ * caller, so any account triggers the split). State lives in .rps/keeper-<chainId>-<contract>.json.
+ */
+export async function createKeeper(adapter: ChainAdapter, opts: KeeperOptions): Promise<Keeper> {
+  const chainId = await adapter.chainId();
+  const resolved = path.resolve(opts.filePath ?? path.join('.rps', `keeper-${chainId}-${adapter.contract.toLowerCase()}.json`));
+  const client = makeRpsClient(adapter, opts.account ?? adapter.accounts[0]);
+  const log = opts.log ?? console.log;
+  const maxAttempts = opts.maxAttempts ?? 5;
+  const retryBase = BigInt(opts.retryBaseSeconds ?? 15);
+
+  const tracked = new Map<bigint, TrackedGame>();
+  const closed = new Set<bigint>();
+  let finalized: Finalization[] = [];
+  try {
+    const file = JSON.parse(await fs.readFile(resolved, 'utf-8'), reviver) as KeeperFile;
+    if (file.version !== 1) throw new Error(`Unsupported keeper state version ${file.version}`);
+    if (file.chainId !== chainId || file.contract.toLowerCase() !== adapter.contract.toLowerCase()) {
+      throw new Error(`Keeper state ${resolved} belongs to ${file.contract} on chain ${file.chainId}`);
+    }
+    for (const t of file.tracked) tracked.set(t.gameId, t);
+    for (const id of file.closed) closed.add(id);
+    finalized = file.finalized;
+  } catch (err: any) {
+    if (err?.code !== 'ENOENT') throw err;
+  }
+
+  // Write to a temp file and rename so a crash mid-write never truncates the state
+  async function persist() {
+    await fs.mkdir(path.dirname(resolved), { recursive: true });
+    const file: KeeperFile = { version: 1, chainId, contract: adapter.contract, tracked: [...tracked.values()], closed: [...closed], finalized };
+    const tmp = `${resolved}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(file, replacer, 2));
+    await fs.rename(tmp, resolved);
+  }
+
+  // Re-read a game; returns false once it no longer needs the keeper
+  async function refresh(gameId: bigint): Promise<boolean> {
+    const game = await client.getGame(gameId);
+    if (game.status === GameStatus.REVEAL_PHASE || game.status === GameStatus.TIE_RESOLUTION) {
+      const prev = tracked.get(gameId);
+      // Both reveals tying moves the game on to TIE_RESOLUTION with a new deadline; start the attempts over.
+      // A rematch resets to WAITING (player2 kept), which the keeper stops tracking below.
+      const fresh = !prev || prev.status !== game.status || prev.deadline !== game.activeDeadline;
+      tracked.set(gameId, fresh
+        ? { gameId, status: game.status, deadline: game.activeDeadline, attempts: 0 }
+        : { ...prev, status: game.status, deadline: game.activeDeadline });
+      return true;
+    }
+    tracked.delete(gameId);
+    if (game.status === GameStatus.COMPLETED || game.status === GameStatus.CANCELLED) closed.add(gameId);
+    return false;
+  }
+
+  async function finalize(t: TrackedGame): Promise<TxResult | undefined> {
+    if (t.status === GameStatus.REVEAL_PHASE) {
+      if (!(await client.isRevealDeadlinePassed(t.gameId))) return undefined;
+      return client.claimAfterRevealTimeout(t.gameId);
+    }
+    if ((await adapter.now()) <= t.deadline) return undefined;
+    return client.handleTie(t.gameId, TieChoice.SPLIT);
+  }
+
+  const keeper: Keeper = {
+    path: resolved,
+
+    tracked() {
+      return [...tracked.values()];
+    },
+
+    finalized() {
+      return [...finalized];
+    },
+
+    async tick() {
+      await opts.indexer.sync();
+      for (const g of opts.indexer.games()) {
+        if (closed.has(g.gameId) || tracked.has(g.gameId)) continue;
+        // The index cannot see the silent tie auto-split, so any non-final game is checked on-chain
+        if (g.status === GameStatus.REVEAL_PHASE || g.status === GameStatus.TIE_RESOLUTION) {
+          await refresh(g.gameId);
+        }
+      }
+
+      const result: TickResult = { finalized: [], failed: [], tracked: [] };
+      const now = await adapter.now();
+      for (const t of [...tracked.values()]) {
+        if (!(await refresh(t.gameId))) continue;
+        const current = tracked.get(t.gameId)!;
+        if (now <= current.deadline) continue;
+        if (current.attempts >= maxAttempts || (current.retryAfter !== undefined && now < current.retryAfter)) continue;
+        try {
+          const tx = await finalize(current);
+          if (!tx) continue;
+          const f: Finalization = {
+            gameId: current.gameId,
+            functionName: tx.functionName as Finalization['functionName'],
+            hash: tx.hash,
+            blockNumber: tx.blockNumber,
+            at: new Date().toISOString()
+          };
+          finalized.push(f);
+          result.finalized.push(f);
+          log(`   ✅ Game ${current.gameId}: ${f.functionName} TX: ${f.hash}`);
+        } catch (err) {
+          const message = err instanceof Error ? (err as any).shortMessage ?? err.message : String(err);
+          current.attempts++;
+          current.lastError = message;
+          // 15s, 30s, 60s, ... capped at an hour of chain time
+          const backoff = retryBase << BigInt(current.attempts - 1);
+          current.retryAfter = now + (backoff < 3_600n ? backoff : 3_600n);
+          result.failed.push({ gameId: current.gameId, error: message });
+          log(current.attempts >= maxAttempts
+            ? `   ❌ Game ${current.gameId}: finalize failed ${current.attempts} times, giving up: ${message}`
+            : `   ⚠️  Game ${current.gameId}: finalize attempt ${current.attempts} failed (retry after ${current.retryAfter}): ${message}`);
+        }
+        // Somebody else may have finalized it first; either way the chain decides what is left
+        await refresh(current.gameId);
+      }
+
+      result.tracked = [...tracked.values()];
+      const upcoming = result.tracked
+        .filter(t => t.attempts < maxAttempts)
+        .map(t => t.retryAfter !== undefined && t.retryAfter > t.deadline ? t.retryAfter : t.deadline)
+        .filter(d => d >= now);
+      result.nextDeadline = upcoming.length > 0 ? upcoming.reduce((a, b) => (b < a ? b : a)) : undefined;
+      await persist();
+      return result;
+    },
+
+    async run({ signal, pollMs = 15_000, minSleepMs = 1_000 } = {}) {
+      while (!signal?.aborted) {
+        const { nextDeadline, tracked: watching } = await keeper.tick();
+        let waitMs = pollMs;
+        if (nextDeadline !== undefined) {
+          // Contract deadlines are strict (`>`), so wake one second after the deadline in chain time
+          const untilDeadline = Number(nextDeadline - (await adapter.now()) + 1n) * 1000;
+          waitMs = Math.min(pollMs, Math.max(minSleepMs, untilDeadline));
+        }
+        log(`   ⏳ Watching ${watching.length} game(s); next check in ${Math.round(waitMs / 1000)}s`);
+        await sleep(waitMs, signal);
+      }
+    }
+  };
+
+  return keeper;
+}
@@ -0,0 +1,152 @@
+import { TxResult } from './rpsClient.js';
+import { GameStatus, ZERO_ADDRESS } from './gameView.js';
+
+type Hex = `0x${string}`;
+
+export type LedgerTx = Pick<TxResult, 'hash' | 'from' | 'functionName' | 'args' | 'value' | 'gasUsed' | 'effectiveGasPrice' | 'l1Fee' | 'events'>;
+
+/** One balance movement, signed from the account's point of view */
+export type LedgerLine = {
+  hash: Hex;
+  functionName: string;
+  account: Hex;
+  kind: 'gas' | 'l1Fee' | 'stake' | 'payout';
+  amount: bigint;
+};
+
+export type LedgerOptions = {
+  /**
+   * Game status right after the tx. Only needed for handleTie without TieHandled, which is either a first
+   * choice (no payout) or the post-deadline auto-split: `_splitFunds` emits no event, so status tells them apart.
+   */
+  statusAfter?: GameStatus;
+};
+
+export interface Ledger {
+  /** Book a mined tx; returns the lines it produced */
+  record(tx: LedgerTx, opts?: LedgerOptions): LedgerLine[];
+  /** Net wei change the ledger predicts for `account` */
+  delta(account: Hex): bigint;
+  /** Gas plus L1 fees paid by `account` */
+  fees(account: Hex): bigint;
+  /** Payouts received minus stakes sent by `account`, excluding fees */
+  stakeFlow(account: Hex): bigint;
+  /** Stakes received minus payouts made by the contract */
+  contractDelta(): bigint;
+  lines(): LedgerLine[];
+}
+
+type GameBook = { player1: Hex; player2?: Hex; stake: bigint };
+
+/** gasUsed × effectiveGasPrice plus the rollup L1 data fee when the receipt reports one */
+export function txFee(tx: Pick<LedgerTx, 'gasUsed' | 'effectiveGasPrice' | 'l1Fee'>): bigint {
+  return tx.gasUsed * tx.effectiveGasPrice + (tx.l1Fee ?? 0n);
+}
+
+/** True when `record` cannot price this tx from its events alone and needs `statusAfter` */
+export function needsStatusAfter(tx: Pick<LedgerTx, 'functionName' | 'events'>): boolean {
+  return tx.functionName === 'handleTie' && !tx.events.some(e => e.eventName === 'TieHandled');
+}
+
+function same(a: string, b: string) {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Exact per-account ledger for RockPaperScissors txs, derived only from receipts and events:
+ * fees, stakes sent (tx value) and the payouts each function implies.
+ */
+export function createLedger(): Ledger {
+  const books = new Map<bigint, GameBook>();
+  const all: LedgerLine[] = [];
+
+  function book(gameId: bigint): GameBook {
+    const g = books.get(gameId);
+    if (!g) throw new Error(`Ledger has no GameCreated for game ${gameId}; record the whole game from createGame`);
+    return g;
+  }
+
+  function split(tx: LedgerTx, g: GameBook, push: (account: Hex, kind: LedgerLine['kind'], amount: bigint) => void) {
+    if (!g.player2) throw new Error(`Split of a game without player2 in tx ${tx.hash}`);
+    push(g.player1, 'payout', g.stake);
+    push(g.player2, 'payout', g.stake);
+  }
+
+  return {
+    record(tx, opts = {}) {
+      const lines: LedgerLine[] = [];
+      const push = (account: Hex, kind: LedgerLine['kind'], amount: bigint) => {
+        if (amount !== 0n) lines.push({ hash: tx.hash, functionName: tx.functionName, account, kind, amount });
+      };
+      const event = (name: string) => tx.events.find(e => e.eventName === name);
+
+      push(tx.from, 'gas', -(tx.gasUsed * tx.effectiveGasPrice));
+      push(tx.from, 'l1Fee', -(tx.l1Fee ?? 0n));
+      push(tx.from, 'stake', -tx.value);
+
+      if (tx.functionName === 'createGame') {
+        const created = event('GameCreated');
+        if (!created) throw new Error(`createGame tx ${tx.hash} has no GameCreated event`);
+        books.set(created.args.gameId as bigint, { player1: created.args.player1 as Hex, stake: created.args.stake as bigint });
+      } else {
+        const gameId = tx.args[0] as bigint;
+        const g = book(gameId);
+        const resolved = event('GameResolved');
+        const winner = resolved?.args.winner as Hex | undefined;
+
+        switch (tx.functionName) {
+          case 'joinGame':
+            g.player2 = (event('GameJoined')?.args.player2 as Hex | undefined) ?? tx.from;
+            break;
+          case 'reveal':
+            // GameResolved(0) from a reveal means the game entered TIE_RESOLUTION: nothing is paid yet
+            if (winner && !same(winner, ZERO_ADDRESS)) push(winner, 'payout', g.stake * 2n);
+            break;
+          case 'claimAfterRevealTimeout':
+            if (!winner) throw new Error(`claimAfterRevealTimeout tx ${tx.hash} has no GameResolved event`);
+            if (same(winner, ZERO_ADDRESS)) split(tx, g, push);
+            else push(winner, 'payout', g.stake * 2n);
+            break;
+          case 'handleTie': {
+            const tie = event('TieHandled');
+            if (tie) {
+              if (!tie.args.isRematch) split(tx, g, push);
+            } else if (opts.statusAfter === undefined) {
+              throw new Error(`handleTie tx ${tx.hash} emitted no TieHandled; pass statusAfter to tell a first choice from the silent auto-split`);
+            } else if (opts.statusAfter === GameStatus.COMPLETED) {
+              split(tx, g, push);
+            }
+            break;
+          }
+          case 'cancelGame':
+            if (event('GameCancelled')) push(g.player1, 'payout', g.stake);
+            break;
+        }
+      }
+
+      all.push(...lines);
+      return lines;
+    },
+
+    delta(account) {
+      return all.filter(l => same(l.account, account)).reduce((sum, l) => sum + l.amount, 0n);
+    },
+
+    fees(account) {
+      return -all.filter(l => same(l.account, account) && (l.kind === 'gas' || l.kind === 'l1Fee')).reduce((sum, l) => sum + l.amount, 0n);
+    },
+
+    stakeFlow(account) {
+      return all.filter(l => same(l.account, account) && (l.kind === 'stake' || l.kind === 'payout')).reduce((sum, l) => sum + l.amount, 0n);
+    },
+
+    contractDelta() {
+      // Every stake line is a transfer into the contract, every payout one out of it
+      return -all.filter(l => l.kind === 'stake' || l.kind === 'payout').reduce((sum, l) => sum + l.amount, 0n);
+    },
+
+    lines() {
+      return [...all];
+    }
+  };
+}
@@ -0,0 +1,76 @@
+import { GameStatus, GameView, TieChoice } from './gameView.js';
+import { rematchBlocker } from './rematch.js';
+
+type Hex = `0x${string}`;
+
+/** Something a given account can do with a game right now, or what it is waiting for */
+export type GameAction =
+  | { kind: 'join' }
+  | { kind: 'cancel'; note?: string }
+  | { kind: 'reveal'; deadline: bigint }
+  | { kind: 'tie'; deadline: bigint }
+  /** claimAfterRevealTimeout: callable by anyone once the reveal deadline passed */
+  | { kind: 'claim' }
+  /** handleTie after the tie deadline: any caller and any choice triggers the silent auto-split */
+  | { kind: 'finalizeTie' }
+  | { kind: 'wait'; reason: string; until?: bigint }
+  | { kind: 'none'; reason: string };
+
+function same(a: string, b: string) {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Actions available to `me` for a game decoded from getGame, judged against chain time `now`.
+ * Deadlines follow the contract: reveal/handleTie are allowed while `now <= deadline`,
+ * the timeout paths once `now > deadline`.
+ */
+export function nextActions(game: GameView, me: Hex, now: bigint): GameAction[] {
+  const slot = same(game.player1, me) ? 0 : game.hasOpponent && same(game.player2, me) ? 1 : undefined;
+
+  switch (game.status) {
+    case GameStatus.WAITING: {
+      if (slot === 0) {
+        const blocker = rematchBlocker(game);
+        return blocker
+          ? [{ kind: 'cancel', note: `rematch cannot continue (${blocker}); cancel refunds player 1 only` }]
+          : [{ kind: 'cancel' }, { kind: 'wait', reason: 'waiting for a second player to join' }];
+      }
+      if (game.hasOpponent) return [{ kind: 'none', reason: 'game was reset by a rematch and cannot be joined' }];
+      return [{ kind: 'join' }];
+    }
+
+    case GameStatus.REVEAL_PHASE: {
+      if (now > game.revealDeadline) return [{ kind: 'claim' }];
+      const actions: GameAction[] = [];
+      if (slot !== undefined && game.revealed && !game.revealed[slot]) actions.push({ kind: 'reveal', deadline: game.revealDeadline });
+      else if (slot !== undefined) actions.push({ kind: 'wait', reason: 'waiting for the opponent to reveal', until: game.revealDeadline });
+      else actions.push({ kind: 'wait', reason: 'reveal phase in progress', until: game.revealDeadline });
+      return actions;
+    }
+
+    case GameStatus.TIE_RESOLUTION: {
+      if (now > game.tieResolutionDeadline) return [{ kind: 'finalizeTie' }];
+      if (slot !== undefined && game.tieChoices && game.tieChoices[slot] === TieChoice.NONE) {
+        return [{ kind: 'tie', deadline: game.tieResolutionDeadline }];
+      }
+      const reason = slot !== undefined ? 'waiting for the opponent to choose rematch or split' : 'tie resolution in progress';
+      return [{ kind: 'wait', reason, until: game.tieResolutionDeadline }];
+    }
+
+    case GameStatus.COMPLETED:
+      return [{ kind: 'none', reason: 'game is completed' }];
+
+    case GameStatus.CANCELLED:
+      return [{ kind: 'none', reason: 'game was cancelled' }];
+  }
+}
+
+/** "2025-11-04T18:02:30.000Z (in 1m 05s)" or "(passed 12s ago)" */
+export function formatDeadline(deadline: bigint, now: bigint): string {
+  const iso = new Date(Number(deadline) * 1000).toISOString();
+  const diff = deadline - now;
+  const abs = diff < 0n ? -diff : diff;
+  const span = abs >= 60n ? `${abs / 60n}m ${String(abs % 60n).padStart(2, '0')}s` : `${abs}s`;
+  return diff >= 0n ? `${iso} (in ${span})` : `${iso} (passed ${span} ago)`;
+}
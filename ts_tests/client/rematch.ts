@@ -0,0 +1,95 @@
+import { makeCommit } from './utils.js';
+import { RpsClient, TieHandledEvent, TxResult } from './rpsClient.js';
+import { GameStatus, GameView, Move } from './gameView.js';
+import { commitmentOf } from './commitment.js';
+
+type Hex = `0x${string}`;
+
+const ZERO_HASH = `0x${'0'.repeat(64)}` as Hex;
+
+export type RematchOptions = {
+  /** Moves for the next round: [player1, player2] */
+  moves: [Move, Move];
+  /** What to do when the game cannot be re-committed: only report, or let player 1 cancel */
+  onStuck?: 'report' | 'cancel';
+  /** Salt/nonce source (default: random) */
+  makeCommit?: (move: number) => { move: number; salt: Hex; nonce: Hex };
+};
+
+export type RematchReport =
+  | { state: 'not-rematch'; gameId: bigint }
+  | {
+      state: 'stuck';
+      gameId: bigint;
+      /** Human-readable explanation of why the rematch cannot proceed */
+      reason: string;
+      game: GameView;
+      /** Fresh commitments for the next round; never sent, so never vaulted */
+      commitments: { player1: Hex; player2: Hex };
+      /** cancelGame refunds only player 1's stake; player 2's stays in the contract */
+      cancelRefunds: 'player1-only';
+      /** Wei that stays locked in the contract if player 1 cancels */
+      lockedAfterCancel: bigint;
+      cancelled?: TxResult;
+    };
+
+/**
+ * Why a reset game cannot take new commitments, or undefined if it can.
+ * After both players choose REMATCH the contract resets status/commitments but keeps player2,
+ * so joinGame reverts with PlayerAlreadyJoined and player 1 has no function to re-commit.
+ */
+export function rematchBlocker(game: GameView): string | undefined {
+  if (game.status !== GameStatus.WAITING) {
+    return `game is ${GameStatus[game.status]}, not WAITING`;
+  }
+  if (game.hasOpponent) {
+    return `player2 is still set to ${game.player2}, so joinGame reverts with PlayerAlreadyJoined`;
+  }
+  if (!game.commitments || game.commitments[0] === ZERO_HASH) {
+    return 'player 1 commitment was cleared and the contract has no function to re-commit it';
+  }
+  return undefined;
+}
+
+/**
+ * Handle a game after `TieHandled(isRematch=true)`: generate fresh commitments for both players and
+ * report the stuck state (optionally letting player 1 cancel). The contract has no way to re-commit
+ * after the reset, so there is no round to play until it gains one.
+ */
+export async function runRematch(
+  players: { player1: RpsClient; player2: RpsClient },
+  gameId: bigint,
+  tieHandled: TieHandledEvent | undefined,
+  opts: RematchOptions
+): Promise<RematchReport> {
+  if (!tieHandled?.isRematch) return { state: 'not-rematch', gameId };
+  const { player1: c1, player2: c2 } = players;
+
+  const commit = opts.makeCommit ?? makeCommit;
+  const p1 = commit(opts.moves[0]);
+  const p2 = commit(opts.moves[1]);
+  const commitments = { player1: commitmentOf(p1), player2: commitmentOf(p2) };
+
+  const game = await c1.getGame(gameId);
+  const report: RematchReport = {
+    state: 'stuck',
+    gameId,
+    reason: rematchBlocker(game) ?? 'the contract has no function to re-commit a reset game',
+    game,
+    commitments,
+    cancelRefunds: 'player1-only',
+    lockedAfterCancel: game.stake
+  };
+  if (opts.onStuck === 'cancel') {
+    report.cancelled = await c1.cancelGame(gameId);
+  }
+  return report;
+}
+
+/** Console summary in the runners' style */
+export function logRematchReport(report: RematchReport) {
+  if (report.state === 'not-rematch') return;
+  console.log(`   ⚠️  Rematch of game ${report.gameId} is stuck: ${report.reason}`);
+  console.log(`   ⚠️  Fresh commitments generated: P1 ${report.commitments.player1}, P2 ${report.commitments.player2}`);
+  console.log(`   ⚠️  Only exit is cancelGame by player 1, which refunds player 1 only; ${report.lockedAfterCancel} wei of player 2 stays locked`);
+}
@@ -0,0 +1,120 @@
+import { parseEther, Hex } from 'viem';
+import { decodeGame, GameView } from './gameView.js';
+import { ChainAdapter, DecodedEvent, SendResult } from './chainAdapter.js';
+
+/** Fixed stake enforced by RockPaperScissors.FIXED_STAKE (0.001 ETH) */
+export const FIXED_STAKE = parseEther('0.001');
+
+/** A mined, successful tx: sender, call, value, receipt gas/fee fields and decoded events in log order */
+export type TxResult = SendResult;
+
+export type CreateGameResult = TxResult & { gameId: bigint };
+
+export type GameResolvedEvent = {
+  gameId: bigint;
+  winner: Hex;
+  move1: number;
+  move2: number;
+};
+
+export type TieHandledEvent = {
+  gameId: bigint;
+  player1Choice: number;
+  player2Choice: number;
+  isRematch: boolean;
+};
+
+/** reveal/claim may resolve the game; handleTie may emit TieHandled */
+export type ResolveResult = TxResult & { resolved?: GameResolvedEvent };
+export type HandleTieResult = ResolveResult & { tieHandled?: TieHandledEvent };
+
+/**
+ * Typed wrapper around every RockPaperScissors entry point for one player,
+ * on top of either ChainAdapter (viem or ethers).
+ */
+export interface RpsClient {
+  readonly address: Hex;
+  readonly player: Hex;
+  createGame(commitment: Hex, value?: bigint): Promise<CreateGameResult>;
+  joinGame(gameId: bigint, commitment: Hex, value?: bigint): Promise<TxResult>;
+  reveal(gameId: bigint, move: number, salt: Hex, nonce: Hex): Promise<ResolveResult>;
+  handleTie(gameId: bigint, choice: number): Promise<HandleTieResult>;
+  cancelGame(gameId: bigint): Promise<TxResult>;
+  claimAfterRevealTimeout(gameId: bigint): Promise<ResolveResult>;
+  /** Decoded getGame(gameId), with secondsUntilDeadline relative to the latest block */
+  getGame(gameId: bigint): Promise<GameView>;
+  isRevealDeadlinePassed(gameId: bigint): Promise<boolean>;
+}
+
+export function findResolved(events: DecodedEvent[]): GameResolvedEvent | undefined {
+  const e = events.find(ev => ev.eventName === 'GameResolved');
+  if (!e) return undefined;
+  return {
+    gameId: e.args.gameId as bigint,
+    winner: e.args.winner as Hex,
+    move1: Number(e.args.move1),
+    move2: Number(e.args.move2)
+  };
+}
+
+export function findTieHandled(events: DecodedEvent[]): TieHandledEvent | undefined {
+  const e = events.find(ev => ev.eventName === 'TieHandled');
+  if (!e) return undefined;
+  return {
+    gameId: e.args.gameId as bigint,
+    player1Choice: Number(e.args.player1Choice),
+    player2Choice: Number(e.args.player2Choice),
+    isRematch: Boolean(e.args.isRematch)
+  };
+}
+
+export function makeRpsClient(adapter: ChainAdapter, player: Hex): RpsClient {
+  if (!adapter.accounts.some(a => a.toLowerCase() === player.toLowerCase())) {
+    throw new Error(`${adapter.library} adapter cannot sign for ${player}`);
+  }
+  const send = (functionName: string, args: unknown[], value?: bigint) => adapter.send(player, functionName, args, value);
+
+  return {
+    address: adapter.contract,
+    player,
+
+    async createGame(commitment, value = FIXED_STAKE) {
+      const result = await send('createGame', [commitment], value);
+      const created = result.events.find(e => e.eventName === 'GameCreated');
+      if (!created) throw new Error(`GameCreated event not found in tx ${result.hash}`);
+      return { ...result, gameId: created.args.gameId as bigint };
+    },
+
+    async joinGame(gameId, commitment, value = FIXED_STAKE) {
+      return send('joinGame', [gameId, commitment], value);
+    },
+
+    async reveal(gameId, move, salt, nonce) {
+      const result = await send('reveal', [gameId, move, salt, nonce]);
+      return { ...result, resolved: findResolved(result.events) };
+    },
+
+    async handleTie(gameId, choice) {
+      const result = await send('handleTie', [gameId, choice]);
+      return { ...result, resolved: findResolved(result.events), tieHandled: findTieHandled(result.events) };
+    },
+
+    async cancelGame(gameId) {
+      return send('cancelGame', [gameId]);
+    },
+
+    async claimAfterRevealTimeout(gameId) {
+      const result = await send('claimAfterRevealTimeout', [gameId]);
+      return { ...result, resolved: findResolved(result.events) };
+    },
+
+    async getGame(gameId) {
+      const [raw, now] = await Promise.all([adapter.read('getGame', [gameId]), adapter.now()]);
+      return decodeGame(raw, now);
+    },
+
+    async isRevealDeadlinePassed(gameId) {
+      return Boolean(await adapter.read('isRevealDeadlinePassed', [gameId]));
+    }
+  };
+}
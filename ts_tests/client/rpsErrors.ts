@@ -0,0 +1,121 @@
+import { decodeErrorResult } from 'viem';
+import abiJson from '../../out/RockPaperScissors.sol/RockPaperScissors.json' assert { type: 'json' };
+
+type Hex = `0x${string}`;
+
+const abi = (abiJson as any).abi;
+
+/** The custom errors declared in RockPaperScissors.sol */
+export const RPS_ERROR_NAMES = [
+  'FixedStakeRequired', 'InvalidGameId', 'GameNotInWaitingStatus', 'GameNotInRevealPhase',
+  'GameNotInTieResolution', 'PlayerAlreadyJoined', 'InvalidPlayer', 'RevealDeadlinePassed',
+  'TieResolutionDeadlinePassed', 'InvalidCommitment', 'MoveAlreadyRevealed', 'InvalidGameStatus',
+  'OnlyPlayer1CanCancel'
+] as const;
+
+export type RpsErrorName = typeof RPS_ERROR_NAMES[number];
+
+/** A decoded custom error; only FixedStakeRequired carries an argument */
+export type RpsCustomError =
+  | { name: 'FixedStakeRequired'; required: bigint }
+  | { [N in Exclude<RpsErrorName, 'FixedStakeRequired'>]: { name: N } }[Exclude<RpsErrorName, 'FixedStakeRequired'>];
+
+/**
+ * Why a call reverted: one of the contract's custom errors, a `require` string such as
+ * "Transfer failed" (`Error`), a compiler `Panic`, or revert data this ABI does not know (`Unknown`).
+ */
+export type RpsRevert =
+  | RpsCustomError
+  | { name: 'Error'; reason: string }
+  | { name: 'Panic'; code: bigint }
+  | { name: 'Unknown'; data: Hex };
+
+const HINTS: Record<RpsErrorName, string> = {
+  FixedStakeRequired: 'send exactly the required stake as msg.value (FIXED_STAKE on createGame, the game\'s stake on joinGame)',
+  InvalidGameId: 'no game has this id; ids start at 1 and only exist once createGame is mined',
+  GameNotInWaitingStatus: 'the game is no longer WAITING: somebody joined, or it was cancelled',
+  GameNotInRevealPhase: 'the game is not in REVEAL_PHASE: nobody joined yet, or it is already resolved',
+  GameNotInTieResolution: 'the game is not in TIE_RESOLUTION: the moves did not tie, or the tie was already settled',
+  PlayerAlreadyJoined: 'the game already has a second player',
+  InvalidPlayer: 'the sender is not a player of this game (or player 1 tried to join their own game)',
+  RevealDeadlinePassed: 'the reveal window closed at revealDeadline; anyone can now call claimAfterRevealTimeout ' +
+    '(from claimAfterRevealTimeout itself it means the opposite: the deadline has not passed yet)',
+  TieResolutionDeadlinePassed: 'declared but never thrown: past the tie deadline handleTie splits the stakes instead of reverting',
+  InvalidCommitment: 'move, salt and nonce do not hash to the stored commitment; check the vault entry for this game',
+  MoveAlreadyRevealed: 'this player has already revealed in this game',
+  InvalidGameStatus: 'handleTie needs REMATCH (1) or SPLIT (2); NONE is rejected',
+  OnlyPlayer1CanCancel: 'only the game\'s creator can cancel it'
+};
+
+// claimAfterRevealTimeout reuses RevealDeadlinePassed as its "not yet passed" guard
+const CLAIM_TOO_EARLY = 'claimAfterRevealTimeout reverts with RevealDeadlinePassed while the deadline has NOT passed yet; ' +
+  'wait until a block timestamp is past revealDeadline (isRevealDeadlinePassed turns true)';
+
+const REQUIRE_HINTS: Record<string, string> = {
+  'Transfer failed': 'a payout recipient rejected the ETH transfer (a contract without a payable receive)',
+  'Refund failed': 'player 1 rejected the refund (a contract without a payable receive)',
+  'Already both revealed': 'both moves are revealed, so the game resolved on the second reveal'
+};
+
+function isHex(v: unknown): v is Hex {
+  return typeof v === 'string' && /^0x[0-9a-fA-F]*$/.test(v) && v.length >= 10;
+}
+
+function fromDecoded(errorName: string, args: readonly unknown[] | undefined, data: Hex): RpsRevert {
+  if (errorName === 'Error') return { name: 'Error', reason: String(args?.[0] ?? '') };
+  if (errorName === 'Panic') return { name: 'Panic', code: BigInt(args?.[0] as bigint ?? 0n) };
+  if (errorName === 'FixedStakeRequired') return { name: 'FixedStakeRequired', required: BigInt(args?.[0] as bigint) };
+  if ((RPS_ERROR_NAMES as readonly string[]).includes(errorName)) return { name: errorName } as RpsCustomError;
+  return { name: 'Unknown', data };
+}
+
+/** Decode raw revert data (selector + ABI-encoded args) against the RockPaperScissors ABI */
+export function decodeRevertData(data: Hex): RpsRevert {
+  try {
+    const { errorName, args } = decodeErrorResult({ abi, data });
+    return fromDecoded(errorName, args as readonly unknown[] | undefined, data);
+  } catch {
+    return { name: 'Unknown', data };
+  }
+}
+
+/**
+ * Find the revert in an error thrown by viem, ethers or the tx pipeline. viem keeps the data on
+ * ContractFunctionRevertedError.raw, ethers on CallExceptionError.data, and some nodes only in the
+ * nested RPC error, so the whole cause chain is searched. Undefined when the error carries no revert data
+ * (network failures, a tx mined with status 0).
+ */
+export function decodeRevert(err: unknown): RpsRevert | undefined {
+  for (let e: any = err, depth = 0; e && depth < 8; e = e.cause, depth++) {
+    if (e.failure?.revert) return e.failure.revert as RpsRevert;
+    for (const v of [e.raw, e.data, e.data?.data, e.error?.data, e.error?.data?.data, e.info?.error?.data]) {
+      if (isHex(v)) return decodeRevertData(v);
+    }
+  }
+  return undefined;
+}
+
+/** `FixedStakeRequired(1000000000000000)`, `InvalidCommitment()`, `Error("Transfer failed")` */
+export function formatRevert(revert: RpsRevert): string {
+  switch (revert.name) {
+    case 'FixedStakeRequired': return `FixedStakeRequired(${revert.required})`;
+    case 'Error': return `Error("${revert.reason}")`;
+    case 'Panic': return `Panic(0x${revert.code.toString(16)})`;
+    case 'Unknown': return `unknown revert ${revert.data.slice(0, 10)}`;
+    default: return `${revert.name}()`;
+  }
+}
+
+/** What the revert means for the call that hit it; `functionName` disambiguates reused errors */
+export function revertHint(revert: RpsRevert, functionName?: string): string | undefined {
+  if (revert.name === 'RevealDeadlinePassed' && functionName === 'claimAfterRevealTimeout') return CLAIM_TOO_EARLY;
+  if (revert.name === 'Error') return REQUIRE_HINTS[revert.reason];
+  if (revert.name === 'Panic' || revert.name === 'Unknown') return undefined;
+  return HINTS[revert.name];
+}
+
+/** Narrow a caught error to one custom error, e.g. `revertIs(err, 'FixedStakeRequired')?.required` */
+export function revertIs<N extends RpsRevert['name']>(err: unknown, name: N): Extract<RpsRevert, { name: N }> | undefined {
+  const revert = decodeRevert(err);
+  return revert?.name === name ? revert as Extract<RpsRevert, { name: N }> : undefined;
+}
@@ -0,0 +1,325 @@
+import { GameStatus, GameView, Move, TieChoice, ZERO_ADDRESS, decodeGame, determineWinner } from './gameView.js';
+import { FIXED_STAKE } from './rpsClient.js';
+import { RpsRevert } from './rpsErrors.js';
+import { commitmentOf } from './commitment.js';
+
+type Hex = `0x${string}`;
+
+/** RockPaperScissors.REVEAL_DURATION and TIE_RESOLUTION_DURATION, in seconds */
+export const REVEAL_DURATION = 120n;
+export const TIE_RESOLUTION_DURATION = 120n;
+
+const ZERO_HASH = `0x${'0'.repeat(64)}` as Hex;
+
+/** The Game struct, field for field; `decodeGame` accepts it like a getGame result */
+export type ModelGame = {
+  player1: Hex;
+  player2: Hex;
+  stake: bigint;
+  commitments: readonly [Hex, Hex];
+  reveals: readonly [Move, Move];
+  revealed: readonly [boolean, boolean];
+  revealDeadline: bigint;
+  tieResolutionDeadline: bigint;
+  tieChoices: readonly [TieChoice, TieChoice];
+  status: GameStatus;
+};
+
+export type ModelState = {
+  gameCounter: bigint;
+  games: ReadonlyMap<bigint, ModelGame>;
+};
+
+/** One external call; `from` is msg.sender and `value` msg.value */
+export type ModelAction =
+  | { functionName: 'createGame'; from: Hex; commitment: Hex; value: bigint }
+  | { functionName: 'joinGame'; from: Hex; gameId: bigint; commitment: Hex; value: bigint }
+  | { functionName: 'reveal'; from: Hex; gameId: bigint; move: Move; salt: Hex; nonce: Hex }
+  | { functionName: 'handleTie'; from: Hex; gameId: bigint; choice: TieChoice }
+  | { functionName: 'cancelGame'; from: Hex; gameId: bigint }
+  | { functionName: 'claimAfterRevealTimeout'; from: Hex; gameId: bigint };
+
+/** Same shape as a DecodedEvent from either adapter (uint256 as bigint, enums as numbers) */
+export type ModelEvent = { eventName: string; args: Record<string, unknown> };
+
+/** ETH moved by the call: stakes into the contract, payouts out of it */
+export type Transfer = { from: Hex | 'contract'; to: Hex | 'contract'; amount: bigint };
+
+export type ModelResult =
+  | { ok: true; state: ModelState; events: ModelEvent[]; transfers: Transfer[]; gameId: bigint }
+  /** The call reverts; nothing changes */
+  | { ok: false; state: ModelState; revert: RpsRevert };
+
+export function initialModelState(gameCounter = 0n): ModelState {
+  return { gameCounter, games: new Map() };
+}
+
+function same(a: string, b: string) {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function pair<T>(v: readonly [T, T], i: number, x: T): readonly [T, T] {
+  return i === 0 ? [x, v[1]] : [v[0], x];
+}
+
+class Revert {
+  constructor(readonly revert: RpsRevert) {}
+}
+
+const fail = (revert: RpsRevert): never => { throw new Revert(revert); };
+
+/**
+ * Apply one call at block timestamp `time`, following RockPaperScissors.sol check for check: the same
+ * guard order, the same reverts, the same events in emission order and the same transfers. Recipients
+ * are assumed to accept ETH, so the "Transfer failed" requires never fire.
+ */
+export function applyAction(state: ModelState, action: ModelAction, time: bigint): ModelResult {
+  const games = new Map(state.games);
+  const events: ModelEvent[] = [];
+  const transfers: Transfer[] = [];
+  let gameCounter = state.gameCounter;
+
+  const pay = (to: Hex, amount: bigint) => transfers.push({ from: 'contract', to, amount });
+  const split = (g: ModelGame) => {
+    pay(g.player1, g.stake);
+    pay(g.player2, g.stake);
+  };
+  const existing = (gameId: bigint): ModelGame => {
+    const g = games.get(gameId);
+    return g && g.player1 !== ZERO_ADDRESS ? g : fail({ name: 'InvalidGameId' });
+  };
+  const slotOf = (g: ModelGame, from: Hex): 0 | 1 =>
+    same(from, g.player1) ? 0 : same(from, g.player2) ? 1 : fail({ name: 'InvalidPlayer' });
+
+  try {
+    let gameId: bigint;
+    switch (action.functionName) {
+      case 'createGame': {
+        if (action.value !== FIXED_STAKE) fail({ name: 'FixedStakeRequired', required: FIXED_STAKE });
+        gameId = ++gameCounter;
+        transfers.push({ from: action.from, to: 'contract', amount: action.value });
+        games.set(gameId, {
+          player1: action.from,
+          player2: ZERO_ADDRESS,
+          stake: action.value,
+          commitments: [action.commitment, ZERO_HASH],
+          reveals: [Move.ROCK, Move.ROCK],
+          revealed: [false, false],
+          revealDeadline: 0n,
+          tieResolutionDeadline: 0n,
+          tieChoices: [TieChoice.NONE, TieChoice.NONE],
+          status: GameStatus.WAITING
+        });
+        events.push({ eventName: 'GameCreated', args: { gameId, player1: action.from, stake: action.value } });
+        break;
+      }
+
+      case 'joinGame': {
+        gameId = action.gameId;
+        const g = existing(gameId);
+        if (g.status !== GameStatus.WAITING) fail({ name: 'GameNotInWaitingStatus' });
+        if (g.player2 !== ZERO_ADDRESS) fail({ name: 'PlayerAlreadyJoined' });
+        if (same(action.from, g.player1)) fail({ name: 'InvalidPlayer' });
+        if (action.value !== g.stake) fail({ name: 'FixedStakeRequired', required: g.stake });
+        transfers.push({ from: action.from, to: 'contract', amount: action.value });
+        games.set(gameId, {
+          ...g,
+          player2: action.from,
+          commitments: [g.commitments[0], action.commitment],
+          revealDeadline: time + REVEAL_DURATION,
+          status: GameStatus.REVEAL_PHASE
+        });
+        events.push({ eventName: 'GameJoined', args: { gameId, player2: action.from } });
+        break;
+      }
+
+      case 'reveal': {
+        gameId = action.gameId;
+        let g = existing(gameId);
+        if (g.status !== GameStatus.REVEAL_PHASE) fail({ name: 'GameNotInRevealPhase' });
+        if (time > g.revealDeadline) fail({ name: 'RevealDeadlinePassed' });
+        const slot = slotOf(g, action.from);
+        if (commitmentOf(action) !== g.commitments[slot]) fail({ name: 'InvalidCommitment' });
+        if (g.revealed[slot]) fail({ name: 'MoveAlreadyRevealed' });
+        g = { ...g, reveals: pair(g.reveals, slot, action.move), revealed: pair(g.revealed, slot, true) };
+        events.push({ eventName: 'GameRevealed', args: { gameId, player1Move: g.reveals[0], player2Move: g.reveals[1] } });
+
+        if (g.revealed[0] && g.revealed[1]) {
+          const winner = determineWinner(g.reveals[0], g.reveals[1]);
+          if (winner === 0) {
+            g = { ...g, status: GameStatus.TIE_RESOLUTION, tieResolutionDeadline: time + TIE_RESOLUTION_DURATION };
+            events.push({ eventName: 'GameResolved', args: { gameId, winner: ZERO_ADDRESS, move1: g.reveals[0], move2: g.reveals[1] } });
+          } else {
+            const winnerAddress = winner === 1 ? g.player1 : g.player2;
+            g = { ...g, status: GameStatus.COMPLETED };
+            pay(winnerAddress, g.stake * 2n);
+            events.push({ eventName: 'GameResolved', args: { gameId, winner: winnerAddress, move1: g.reveals[0], move2: g.reveals[1] } });
+          }
+        }
+        games.set(gameId, g);
+        break;
+      }
+
+      case 'handleTie': {
+        gameId = action.gameId;
+        let g = existing(gameId);
+        if (g.status !== GameStatus.TIE_RESOLUTION) fail({ name: 'GameNotInTieResolution' });
+        // Past the deadline any caller and any choice splits silently (_splitFunds emits nothing)
+        if (time > g.tieResolutionDeadline) {
+          games.set(gameId, { ...g, status: GameStatus.COMPLETED });
+          split(g);
+          break;
+        }
+        if (action.choice !== TieChoice.REMATCH && action.choice !== TieChoice.SPLIT) fail({ name: 'InvalidGameStatus' });
+        const slot = slotOf(g, action.from);
+        g = { ...g, tieChoices: pair(g.tieChoices, slot, action.choice) };
+
+        if (g.tieChoices[0] !== TieChoice.NONE && g.tieChoices[1] !== TieChoice.NONE) {
+          const isRematch = g.tieChoices[0] === TieChoice.REMATCH && g.tieChoices[1] === TieChoice.REMATCH;
+          events.push({ eventName: 'TieHandled', args: { gameId, player1Choice: g.tieChoices[0], player2Choice: g.tieChoices[1], isRematch } });
+          if (isRematch) {
+            // player2 is not cleared, which is what leaves a rematch stuck (see rematch.ts)
+            g = {
+              ...g,
+              commitments: [ZERO_HASH, ZERO_HASH],
+              reveals: [Move.ROCK, Move.ROCK],
+              revealed: [false, false],
+              revealDeadline: 0n,
+              tieResolutionDeadline: 0n,
+              tieChoices: [TieChoice.NONE, TieChoice.NONE],
+              status: GameStatus.WAITING
+            };
+          } else {
+            g = { ...g, status: GameStatus.COMPLETED };
+            split(g);
+          }
+        }
+        games.set(gameId, g);
+        break;
+      }
+
+      case 'cancelGame': {
+        gameId = action.gameId;
+        const g = existing(gameId);
+        if (g.status !== GameStatus.WAITING) fail({ name: 'GameNotInWaitingStatus' });
+        if (!same(action.from, g.player1)) fail({ name: 'OnlyPlayer1CanCancel' });
+        games.set(gameId, { ...g, status: GameStatus.CANCELLED });
+        pay(g.player1, g.stake);
+        events.push({ eventName: 'GameCancelled', args: { gameId } });
+        break;
+      }
+
+      case 'claimAfterRevealTimeout': {
+        gameId = action.gameId;
+        const g = existing(gameId);
+        if (g.status !== GameStatus.REVEAL_PHASE) fail({ name: 'GameNotInRevealPhase' });
+        // The contract reuses RevealDeadlinePassed for "not yet passed"
+        if (time <= g.revealDeadline) fail({ name: 'RevealDeadlinePassed' });
+        const [p1, p2] = g.revealed;
+        if (p1 && p2) fail({ name: 'Error', reason: 'Already both revealed' });
+        games.set(gameId, { ...g, status: GameStatus.COMPLETED });
+        let winner: Hex = ZERO_ADDRESS;
+        if (p1 !== p2) {
+          winner = p1 ? g.player1 : g.player2;
+          pay(winner, g.stake * 2n);
+        } else {
+          split(g);
+        }
+        events.push({ eventName: 'GameResolved', args: { gameId, winner, move1: g.reveals[0], move2: g.reveals[1] } });
+        break;
+      }
+    }
+    return { ok: true, state: { gameCounter, games }, events, transfers, gameId };
+  } catch (err) {
+    if (err instanceof Revert) return { ok: false, state, revert: err.revert };
+    throw err;
+  }
+}
+
+/** Net wei each account gains from `transfers` (fees excluded); 'contract' is the contract's balance */
+export function netTransfers(transfers: readonly Transfer[]): Map<string, bigint> {
+  const net = new Map<string, bigint>();
+  const add = (who: Hex | 'contract', amount: bigint) => {
+    const key = who === 'contract' ? who : who.toLowerCase();
+    net.set(key, (net.get(key) ?? 0n) + amount);
+  };
+  for (const t of transfers) {
+    add(t.from, -t.amount);
+    add(t.to, t.amount);
+  }
+  return net;
+}
+
+// The getGame fields the model must reproduce exactly
+function gameFields(g: GameView): Record<string, string> {
+  return {
+    status: GameStatus[g.status],
+    player1: g.player1.toLowerCase(),
+    player2: g.player2.toLowerCase(),
+    stake: String(g.stake),
+    revealDeadline: String(g.revealDeadline),
+    tieResolutionDeadline: String(g.tieResolutionDeadline),
+    commitments: g.commitments?.join('/').toLowerCase() ?? '',
+    reveals: g.reveals?.join('/') ?? '',
+    revealed: g.revealed?.join('/') ?? '',
+    tieChoices: g.tieChoices?.join('/') ?? ''
+  };
+}
+
+/** Fields where a decoded getGame differs from the model's game, e.g. "status COMPLETED (model TIE_RESOLUTION)" */
+export function diffGame(chain: GameView, model: ModelGame | undefined): string[] {
+  if (!model) return [`game exists on-chain (status ${GameStatus[chain.status]}) but not in the model`];
+  const [a, b] = [gameFields(chain), gameFields(decodeGame(model))];
+  return Object.keys(a).filter(k => a[k] !== b[k]).map(k => `${k} ${a[k]} (model ${b[k]})`);
+}
+
+export interface RpsModel {
+  readonly state: ModelState;
+  /** Apply `action` at block timestamp `time`; the state only advances when the call succeeds */
+  apply(action: ModelAction, time: bigint): ModelResult;
+  game(gameId: bigint): ModelGame | undefined;
+  /** Every transfer of every successful call so far */
+  transfers(): Transfer[];
+}
+
+/**
+ * Offline RockPaperScissors. Start `gameCounter` at the chain's current counter to mirror a shared
+ * contract, so the model hands out the same gameIds.
+ */
+export function createRpsModel(initial: ModelState = initialModelState()): RpsModel {
+  let state = initial;
+  const all: Transfer[] = [];
+  return {
+    get state() {
+      return state;
+    },
+    apply(action, time) {
+      const result = applyAction(state, action, time);
+      if (result.ok) {
+        state = result.state;
+        all.push(...result.transfers);
+      }
+      return result;
+    },
+    game(gameId) {
+      return state.games.get(gameId);
+    },
+    transfers() {
+      return [...all];
+    }
+  };
+}
+
+/** The model action a mined or simulated contract call corresponds to */
+export function actionOf(tx: { from: Hex; functionName: string; args: readonly unknown[]; value: bigint }): ModelAction {
+  const { from, args, value } = tx;
+  switch (tx.functionName) {
+    case 'createGame': return { functionName: 'createGame', from, commitment: args[0] as Hex, value };
+    case 'joinGame': return { functionName: 'joinGame', from, gameId: args[0] as bigint, commitment: args[1] as Hex, value };
+    case 'reveal': return { functionName: 'reveal', from, gameId: args[0] as bigint, move: Number(args[1]) as Move, salt: args[2] as Hex, nonce: args[3] as Hex };
+    case 'handleTie': return { functionName: 'handleTie', from, gameId: args[0] as bigint, choice: Number(args[1]) as TieChoice };
+    case 'cancelGame': return { functionName: 'cancelGame', from, gameId: args[0] as bigint };
+    case 'claimAfterRevealTimeout': return { functionName: 'claimAfterRevealTimeout', from, gameId: args[0] as bigint };
+    default: throw new Error(`The model has no action for ${tx.functionName}`);
+  }
+}
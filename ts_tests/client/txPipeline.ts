@@ -0,0 +1,282 @@
+import { FeeCaps, FeePolicy, PendingTx, SendOptions, SendResult, SubmitOptions } from './chainAdapter.js';
+import { RpsRevert, decodeRevert, formatRevert, revertHint } from './rpsErrors.js';
+
+type Hex = `0x${string}`;
+
+/** Fees for one submission: EIP-1559 caps, or a legacy gas price (zero on Anvil) */
+export type TxFees = FeeCaps | { gasPrice: bigint };
+
+export type TxRequest = {
+  from: Hex;
+  functionName: string;
+  args: readonly unknown[];
+  value: bigint;
+};
+
+/** Why a transaction did not end in a successful receipt */
+export type TxFailure =
+  /** eth_call reverted, so nothing was broadcast; `revert` is set when the node returned revert data */
+  | { kind: 'simulation'; reason: string; revert?: RpsRevert }
+  /** Mined with status 0 */
+  | { kind: 'reverted'; hash: Hex; blockNumber: bigint; gasUsed: bigint }
+  /** The node refused the submission (insufficient funds, fee cap below base fee, ...) */
+  | { kind: 'rejected'; reason: string }
+  /** The nonce was consumed by a transaction this pipeline did not send */
+  | { kind: 'nonce-taken'; nonce: number; hashes: Hex[] }
+  /** Still pending after every replacement */
+  | { kind: 'stuck'; nonce: number; hashes: Hex[] }
+  /** Still pending when the caller's `expired` check turned true */
+  | { kind: 'expired'; nonce: number; hashes: Hex[] };
+
+/** Thrown by ChainAdapter.send and receipt; branch on `failure.kind` (and `failure.revert.name`) instead of the message */
+export type TxError = Error & { tx: TxRequest; failure: TxFailure; cause?: unknown };
+
+function describe(failure: TxFailure): string {
+  switch (failure.kind) {
+    case 'simulation': return `would revert: ${failure.reason}`;
+    case 'reverted': return `reverted on-chain (tx ${failure.hash})`;
+    case 'rejected': return `was rejected by the node: ${failure.reason}`;
+    case 'nonce-taken': return `lost nonce ${failure.nonce} to a transaction sent elsewhere`;
+    case 'stuck': return `is still pending at nonce ${failure.nonce} after ${failure.hashes.length} submission(s)`;
+    case 'expired': return `was still pending at nonce ${failure.nonce} when its deadline passed (${failure.hashes.length} submission(s))`;
+  }
+}
+
+export function txError(tx: TxRequest, failure: TxFailure, cause?: unknown): TxError {
+  const hint = failure.kind === 'simulation' && failure.revert ? revertHint(failure.revert, tx.functionName) : undefined;
+  const err = new Error(`${tx.functionName} from ${tx.from} ${describe(failure)}${hint ? ` (${hint})` : ''}`) as TxError;
+  err.name = 'TxError';
+  err.tx = tx;
+  err.failure = failure;
+  if (cause !== undefined) err.cause = cause;
+  return err;
+}
+
+export function isTxError(err: unknown): err is TxError {
+  return err instanceof Error && 'failure' in err && 'tx' in err;
+}
+
+/** What each adapter provides to the pipeline, in its own library */
+export interface TxBackend {
+  /** eth_call the transaction; throws the library's error if it would revert */
+  simulate(tx: TxRequest): Promise<void>;
+  estimateGas(tx: TxRequest): Promise<bigint>;
+  /** Sign and broadcast with exactly these parameters; returns the hash */
+  broadcast(tx: TxRequest, params: { nonce: number; gas: bigint; fees: TxFees }): Promise<Hex>;
+  /** Undefined while pending; throws a `reverted` TxError for status 0 */
+  receipt(tx: PendingTx): Promise<SendResult | undefined>;
+  /** Whether the node still has the tx in its mempool or a block */
+  known(hash: Hex): Promise<boolean>;
+  nonceAt(from: Hex, blockTag: 'pending' | 'latest'): Promise<number>;
+  /** Fees under the adapter's policy right now */
+  fees(): Promise<TxFees>;
+}
+
+export interface TxPipeline {
+  /** Simulate, broadcast with the next tracked nonce and wait, replacing the tx with higher fees while it stays pending */
+  send(tx: TxRequest, opts?: SendOptions): Promise<SendResult>;
+  /** Broadcast once without simulating or waiting; `opts.nonce` replaces a pending tx */
+  submit(tx: TxRequest, opts?: SubmitOptions): Promise<PendingTx>;
+  /** Forget tracked nonces, e.g. after evm_revert rewound every account */
+  resetNonces(): void;
+}
+
+/** Floor used when a bump starts from no fee caps (zero-fee Anvil) */
+const FLOOR_FEES: FeeCaps = { maxFeePerGas: 1_000_000_000n, maxPriorityFeePerGas: 1_000_000_000n };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Raise both caps by `percent`, at least by 1 wei, capped at `maxFeePerGas` */
+export function bumpFees(fees: FeeCaps | undefined, percent: bigint, maxFeePerGas?: bigint): FeeCaps {
+  if (!fees) return FLOOR_FEES;
+  const up = (v: bigint) => v + (v * percent) / 100n + 1n;
+  let maxFee = up(fees.maxFeePerGas);
+  let priority = up(fees.maxPriorityFeePerGas);
+  if (maxFeePerGas !== undefined && maxFee > maxFeePerGas) maxFee = maxFeePerGas;
+  if (priority > maxFee) priority = maxFee;
+  return { maxFeePerGas: maxFee, maxPriorityFeePerGas: priority };
+}
+
+function bump(fees: TxFees, percent: bigint, cap?: bigint): TxFees {
+  if ('maxFeePerGas' in fees) return bumpFees(fees, percent, cap);
+  // A zero-fee tx is only replaced when the caller asks; outbid it from the floor caps
+  if (fees.gasPrice === 0n) return bumpFees(undefined, percent, cap);
+  const up = fees.gasPrice + (fees.gasPrice * percent) / 100n + 1n;
+  return { gasPrice: cap !== undefined && up > cap ? cap : up };
+}
+
+function sameFees(a: TxFees, b: TxFees): boolean {
+  return 'maxFeePerGas' in a && 'maxFeePerGas' in b
+    ? a.maxFeePerGas === b.maxFeePerGas && a.maxPriorityFeePerGas === b.maxPriorityFeePerGas
+    : 'gasPrice' in a && 'gasPrice' in b && a.gasPrice === b.gasPrice;
+}
+
+function formatFees(fees: TxFees): string {
+  return 'maxFeePerGas' in fees ? `maxFeePerGas ${fees.maxFeePerGas}` : `gasPrice ${fees.gasPrice}`;
+}
+
+export function caps(fees: TxFees): FeeCaps | undefined {
+  return 'maxFeePerGas' in fees ? fees : undefined;
+}
+
+// viem nests the node's text in shortMessage/details, ethers in message/info; walk the cause chain for both
+function errorText(err: unknown): string {
+  const parts: string[] = [];
+  for (let e: any = err, depth = 0; e && depth < 5; e = e.cause, depth++) {
+    for (const v of [e.shortMessage, e.details, e.message, e.info?.error?.message, e.error?.message]) {
+      if (typeof v === 'string' && !parts.includes(v)) parts.push(v);
+    }
+  }
+  return parts.join(' | ') || String(err);
+}
+
+/** First line of the most specific message, for failure reasons */
+function reason(err: unknown): string {
+  const e = err as any;
+  return String(e?.shortMessage ?? e?.message ?? err).split('\n')[0];
+}
+
+type BroadcastError = 'nonce' | 'underpriced' | 'other';
+
+function classify(err: unknown): BroadcastError {
+  const text = errorText(err);
+  if (/nonce too low|nonce has already been used|NONCE_EXPIRED|already known|known transaction/i.test(text)) return 'nonce';
+  if (/underpriced|REPLACEMENT_UNDERPRICED|fee too low/i.test(text)) return 'underpriced';
+  return 'other';
+}
+
+/**
+ * The write path shared by the viem and ethers adapters. Every `send` is simulated first, so a
+ * revert costs no gas. Nonces are tracked per account, so sends from one account never collide
+ * and never need a round trip each. A tx left pending for `replaceAfterMs` is re-sent at the same
+ * nonce with fees raised by `bumpPercent`, up to the policy's maxFeePerGas. The same happens when the
+ * node has dropped it. Zero-fee policies never replace; they only wait, unless `send` is given its
+ * own `replaceAfterMs`. Every failure is thrown as a TxError.
+ */
+export function createTxPipeline(backend: TxBackend, policy: FeePolicy, opts: { log?: (message: string) => void } = {}): TxPipeline {
+  const log = opts.log ?? console.log;
+  const market = policy.mode === 'market' ? policy : undefined;
+  const replaceAfterMs = market?.replaceAfterMs ?? 45_000;
+  const bumpPercent = BigInt(market?.bumpPercent ?? 15);
+  const maxAttempts = market?.maxAttempts ?? 5;
+  const pollMs = market ? 2_000 : 50;
+
+  const nextNonce = new Map<string, number>();
+  const queues = new Map<string, Promise<unknown>>();
+
+  // One broadcast per account at a time, so concurrent sends cannot take the same nonce
+  function exclusive<T>(from: Hex, fn: () => Promise<T>): Promise<T> {
+    const key = from.toLowerCase();
+    const run = (queues.get(key) ?? Promise.resolve()).then(fn, fn);
+    queues.set(key, run.catch(() => {}));
+    return run;
+  }
+
+  async function broadcast(tx: TxRequest, gas: bigint, fees: TxFees, replacing?: number): Promise<PendingTx> {
+    return exclusive(tx.from, async () => {
+      const key = tx.from.toLowerCase();
+      const nonce = replacing ?? nextNonce.get(key) ?? await backend.nonceAt(tx.from, 'pending');
+      try {
+        const hash = await backend.broadcast(tx, { nonce, gas, fees });
+        if (replacing === undefined) nextNonce.set(key, nonce + 1);
+        return { ...tx, hash, nonce, fees: caps(fees) };
+      } catch (err) {
+        // Re-read the nonce next time; the node may know of txs we did not send
+        if (replacing === undefined) nextNonce.delete(key);
+        throw err;
+      }
+    });
+  }
+
+  // Wait for any of the submissions sharing one nonce; whichever the network mined wins
+  async function waitAny(sent: PendingTx[], timeoutMs: number): Promise<SendResult | undefined> {
+    const until = Date.now() + timeoutMs;
+    for (;;) {
+      for (const tx of sent) {
+        const result = await backend.receipt(tx);
+        if (result) return result;
+      }
+      if (Date.now() >= until) return undefined;
+      await sleep(Math.min(pollMs, Math.max(0, until - Date.now())));
+    }
+  }
+
+  return {
+    async send(tx, opts = {}) {
+      const waitMs = opts.replaceAfterMs ?? replaceAfterMs;
+      const bumps = market !== undefined || opts.replaceAfterMs !== undefined;
+      const percent = opts.bumpPercent ?? bumpPercent;
+      const cap = opts.maxFeePerGas ?? market?.maxFeePerGas;
+      try {
+        await backend.simulate(tx);
+      } catch (err) {
+        const revert = decodeRevert(err);
+        throw txError(tx, { kind: 'simulation', reason: revert ? formatRevert(revert) : reason(err), revert }, err);
+      }
+      const gas = await backend.estimateGas(tx);
+      let fees = await backend.fees();
+      const sent: PendingTx[] = [];
+      let resynced = false;
+      let resend = true;
+
+      for (let attempt = 1; ; attempt++) {
+        if (resend) {
+          try {
+            sent.push(await broadcast(tx, gas, fees, sent[0]?.nonce));
+            opts.onBroadcast?.(sent[sent.length - 1], sent.length);
+          } catch (err) {
+            const kind = classify(err);
+            if (sent.length === 0 && kind === 'nonce' && !resynced) {
+              // Our count was behind the node's (txs sent outside this pipeline); retry with a fresh one
+              resynced = true;
+              attempt--;
+              continue;
+            }
+            if (sent.length === 0 || kind === 'other') throw txError(tx, { kind: 'rejected', reason: reason(err) }, err);
+            // A refused replacement means an earlier submission was mined, or the bump was too small
+            if (kind === 'underpriced' && bumps && (opts.expired || attempt < maxAttempts)) {
+              fees = bump(fees, percent, cap);
+              continue;
+            }
+          }
+        }
+
+        const mined = await waitAny(sent, waitMs);
+        if (mined) return mined;
+
+        const hashes = sent.map(s => s.hash);
+        const nonce = sent[0].nonce;
+        if (await backend.nonceAt(tx.from, 'latest') > nonce) {
+          // The receipt may lag the nonce by a block
+          const late = await waitAny(sent, pollMs * 5);
+          if (late) return late;
+          throw txError(tx, { kind: 'nonce-taken', nonce, hashes });
+        }
+        if (opts.expired) {
+          if (await opts.expired()) throw txError(tx, { kind: 'expired', nonce, hashes });
+        } else if (attempt >= maxAttempts) {
+          throw txError(tx, { kind: 'stuck', nonce, hashes });
+        }
+
+        const dropped = !(await Promise.all(hashes.map(h => backend.known(h)))).some(Boolean);
+        const bumped = bumps ? bump(fees, percent, cap) : fees;
+        // At the fee cap, or zero-fee, there is nothing to outbid: keep waiting on what was sent
+        resend = dropped || !sameFees(bumped, fees);
+        if (dropped) log(`   ⛽ ${tx.functionName}: dropped by the node, re-sending at nonce ${nonce}`);
+        else if (resend) log(`   ⛽ ${tx.functionName}: still pending, replacing at nonce ${nonce} with ${formatFees(bumped)}`);
+        else log(`   ⏳ ${tx.functionName}: still pending at nonce ${nonce} (${formatFees(fees)})`);
+        fees = bumped;
+      }
+    },
+
+    async submit(tx, opts = {}) {
+      const fees = opts.fees ?? await backend.fees();
+      const gas = await backend.estimateGas(tx);
+      return broadcast(tx, gas, fees, opts.nonce);
+    },
+
+    resetNonces() {
+      nextNonce.clear();
+    }
+  };
+}
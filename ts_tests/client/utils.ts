@@ -1,58 +1,136 @@
 import 'dotenv/config';
-import { createPublicClient, createWalletClient, http, parseEther, getContract, Hex } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
-import { foundry, sepolia } from 'viem/chains';
+import { createPublicClient, createWalletClient, http, isAddress, parseEther, getContract, Chain, Hex } from 'viem';
+import { privateKeyToAccount, mnemonicToAccount } from 'viem/accounts';
+import { foundry } from 'viem/chains';
 import abiJson from '../../out/RockPaperScissors.sol/RockPaperScissors.json' assert { type: 'json' };
+import rpsConfig from '../../rps.config.js';
+import { FeePolicy, defaultFeePolicy } from './chainAdapter.js';
+import { PlayerSource } from './config.js';
+
+export { argValue } from './args.js';
 
 export type Env = {
+  /** Name of the rps.config.ts profile this env was loaded from */
+  profile: string;
+  chain: Chain;
   rpcUrl: string;
-  privateKey: Hex;
-  privateKey2?: Hex;
+  /** Player keys in order: derived from MNEMONIC (PLAYER_COUNT of them), else PRIVATE_KEY and PRIVATE_KEY_2 */
+  playerKeys: Hex[];
   contractAddress?: Hex;
+  /** Block the contract was deployed in; log scans start here instead of genesis */
+  deploymentBlock?: bigint;
   isLocal: boolean;
+  fees: FeePolicy;
+  /** Blocks an event must be buried under before indexers and watchers act on it */
+  confirmations: bigint;
+  verifyBytecode: boolean;
+  vaultPassphrase?: string;
+  vaultPath?: string;
 };
 
+/** Resolve `--env <name>` (default: TEST_ENV, else anvil) against the profiles in rps.config.ts */
 export function loadEnv(envArg?: string): Env {
   const envName = envArg || process.env.TEST_ENV || 'anvil';
-  
-  let rpcUrl: string;
-  let isLocal: boolean;
-  
-  if (envName === 'sepolia') {
-    rpcUrl = process.env.SEPOLIA_RPC_URL || '';
-    if (!rpcUrl) throw new Error('SEPOLIA_RPC_URL must be set in .env for sepolia tests');
-    isLocal = false;
-  } else {
-    rpcUrl = process.env.ANVIL_RPC_URL || 'http://127.0.0.1:8545';
-    isLocal = true;
+  const profile = rpsConfig.profiles[envName];
+  if (!profile) {
+    throw new Error(`Unknown --env "${envName}". Profiles in rps.config.ts: ${Object.keys(rpsConfig.profiles).join(', ')}`);
+  }
+  if (!profile.rpcUrl) {
+    throw new Error(`Profile "${envName}" has no RPC URL; set it in rps.config.ts (the sepolia profile reads SEPOLIA_RPC_URL from .env)`);
+  }
+  const isLocal = profile.local ?? profile.chain.id === foundry.id;
+
+  const playerKeys = loadPlayerKeys(profile.players);
+
+  const contractAddress = profile.contractAddress || undefined;
+  if (contractAddress !== undefined && !isAddress(contractAddress)) {
+    throw new Error(`CONTRACT_ADDRESS for profile "${envName}" must be a 0x address, got "${contractAddress}"`);
+  }
+
+  const deploymentBlock = profile.deploymentBlock === undefined ? undefined : String(profile.deploymentBlock);
+  if (deploymentBlock !== undefined && deploymentBlock !== '' && !/^\d+$/.test(deploymentBlock)) {
+    throw new Error(`DEPLOYMENT_BLOCK must be a block number, got "${deploymentBlock}"`);
   }
-  
-  const pk = process.env.PRIVATE_KEY as Hex | undefined;
-  if (!pk) throw new Error('PRIVATE_KEY is required in .env');
-  
-  const pk2 = process.env.PRIVATE_KEY_2 as Hex | undefined;
   
   return {
-    rpcUrl,
-    privateKey: pk,
-    privateKey2: pk2,
-    contractAddress: process.env.CONTRACT_ADDRESS as Hex | undefined,
-    isLocal
+    profile: envName,
+    chain: profile.chain,
+    rpcUrl: profile.rpcUrl,
+    playerKeys,
+    contractAddress: contractAddress as Hex | undefined,
+    deploymentBlock: deploymentBlock ? BigInt(deploymentBlock) : undefined,
+    isLocal,
+    fees: profile.fees ?? defaultFeePolicy(isLocal),
+    confirmations: BigInt(profile.confirmations ?? (isLocal ? 0 : 2)),
+    verifyBytecode: profile.verifyBytecode ?? true,
+    vaultPassphrase: process.env.VAULT_PASSPHRASE || undefined,
+    vaultPath: process.env.VAULT_PATH || undefined
   };
 }
 
-export async function makeClients(env: Env, useSecondWallet = false) {
-  const pk = useSecondWallet && env.privateKey2 ? env.privateKey2 : env.privateKey;
-  if (!pk) throw new Error(useSecondWallet ? 'PRIVATE_KEY_2 required but not set in .env' : 'PRIVATE_KEY required');
+/** Players from .env when the profile does not name its own */
+function envPlayers(): PlayerSource {
+  const mnemonic = process.env.MNEMONIC?.trim();
+  if (mnemonic) {
+    const count = process.env.PLAYER_COUNT || '2';
+    if (!/^\d+$/.test(count) || Number(count) < 1) throw new Error(`PLAYER_COUNT must be a positive integer, got "${count}"`);
+    return { mnemonic, count: Number(count) };
+  }
+  if (!process.env.PRIVATE_KEY) throw new Error('PRIVATE_KEY (or MNEMONIC) is required in .env');
+  return { privateKeys: [process.env.PRIVATE_KEY, process.env.PRIVATE_KEY_2] };
+}
+
+function loadPlayerKeys(source: PlayerSource = envPlayers()): Hex[] {
+  if ('mnemonic' in source) {
+    // Standard m/44'/60'/0'/0/i path, the same accounts `anvil --mnemonic` funds
+    return Array.from({ length: source.count ?? 2 }, (_, addressIndex) => {
+      const key = mnemonicToAccount(source.mnemonic, { addressIndex }).getHdKey().privateKey;
+      if (!key) throw new Error(`MNEMONIC did not yield a private key for account ${addressIndex}`);
+      return `0x${Buffer.from(key).toString('hex')}` as Hex;
+    });
+  }
+
+  const keys = source.privateKeys.filter((k): k is string => !!k) as Hex[];
+  if (keys.length === 0) throw new Error('The profile configures no player keys');
+  const seen = new Set<string>();
+  for (const [i, key] of keys.entries()) {
+    if (seen.has(key.toLowerCase())) {
+      throw new Error(i === 1 ? 'PRIVATE_KEY_2 must be a different account from PRIVATE_KEY' : `Player key ${i + 1} repeats an earlier player's key`);
+    }
+    seen.add(key.toLowerCase());
+  }
+  return keys;
+}
+
+const configureMore = (needed: number) => `Set PRIVATE_KEY_2, or MNEMONIC with PLAYER_COUNT=${needed} or more, in .env`;
+
+/** Fail instead of silently reusing an account when fewer than `needed` distinct players are configured */
+export function requirePlayers(env: Env, needed: number, purpose: string) {
+  const n = env.playerKeys.length;
+  if (n >= needed) return;
+  throw new Error(`${purpose} needs ${needed} distinct players but only ${n} ${n === 1 ? 'is' : 'are'} configured. ${configureMore(needed)}`);
+}
+
+/** Clients for player `index` (0-based; `true` is the second player) */
+export async function makeClients(env: Env, player: number | boolean = 0) {
+  const index = typeof player === 'number' ? player : player ? 1 : 0;
+  if (index >= env.playerKeys.length) {
+    throw new Error(`Player ${index + 1} is not configured (${env.playerKeys.length} player key(s) in .env). ${configureMore(index + 1)}`);
+  }
   
-  const account = privateKeyToAccount(pk);
-  const chain = env.isLocal ? foundry : sepolia;
+  const account = privateKeyToAccount(env.playerKeys[index]);
+  const chain = env.chain;
   const transport = http(env.rpcUrl);
   
   const publicClient = createPublicClient({ chain, transport });
   const walletClient = createWalletClient({ account, chain, transport });
   
-  return { publicClient, walletClient, account, isLocal: env.isLocal };
+  return { publicClient, walletClient, account, isLocal: env.isLocal, fees: env.fees };
+}
+
+/** Clients for every configured player, in order */
+export async function makePlayerClients(env: Env) {
+  return Promise.all(env.playerKeys.map((_, i) => makeClients(env, i)));
 }
 
 export async function getDeployedContract(address: Hex) {
@@ -60,6 +138,75 @@ export async function getDeployedContract(address: Hex) {
   return { abi, address } as const;
 }
 
+/** Runtime code without the trailing CBOR metadata (its last two bytes give its length), which differs per build */
+function withoutMetadata(code: Hex): string {
+  const hex = code.slice(2).toLowerCase();
+  const cut = hex.length - 4 - parseInt(hex.slice(-4), 16) * 2;
+  return cut > 0 ? hex.slice(0, cut) : hex;
+}
+
+export type VerifyOptions = {
+  /** Throw instead of returning contractDeployed: false when there is no code to use */
+  requireContract?: boolean;
+};
+
+/**
+ * Refuse to run against the wrong network: the RPC must report the profile's chainId, and the code at
+ * CONTRACT_ADDRESS must be this repo's RockPaperScissors (compared without the metadata hash). On a
+ * local profile an address without code (Anvil was restarted) yields contractDeployed: false so the
+ * runner can redeploy; anywhere else it is an error.
+ */
+export async function verifyEnvironment(env: Env, opts: VerifyOptions = {}): Promise<{ contractDeployed: boolean }> {
+  const publicClient = createPublicClient({ chain: env.chain, transport: http(env.rpcUrl) });
+  const host = new URL(env.rpcUrl).host;
+  const chainId = await publicClient.getChainId();
+  if (chainId !== env.chain.id) {
+    throw new Error(`RPC ${host} is chain ${chainId}, but profile "${env.profile}" expects ${env.chain.name} (${env.chain.id}). Check --env and the profile's RPC URL`);
+  }
+
+  const missing = (why: string) => {
+    if (opts.requireContract || !env.isLocal) throw new Error(`${why}. Set CONTRACT_ADDRESS for profile "${env.profile}"`);
+    return { contractDeployed: false };
+  };
+  if (!env.contractAddress) return missing(`No contract address configured for ${env.chain.name}`);
+  const code = await publicClient.getBytecode({ address: env.contractAddress });
+  if (!code || code === '0x') return missing(`No contract code at ${env.contractAddress} on ${env.chain.name}`);
+
+  if (env.verifyBytecode) {
+    const expected = (abiJson as any).deployedBytecode?.object as Hex | undefined;
+    if (!expected || expected === '0x') throw new Error('Deployed bytecode not found in out/. Run `forge build` first.');
+    if (withoutMetadata(code) !== withoutMetadata(expected)) {
+      throw new Error(`The contract at ${env.contractAddress} on ${env.chain.name} is not this repo's RockPaperScissors ` +
+        `(runtime code differs from out/). Rebuild with \`forge build\`, redeploy, or set verifyBytecode: false in rps.config.ts`);
+    }
+  }
+  return { contractDeployed: true };
+}
+
+export async function deployContract(walletClient: any, publicClient: any, isLocal: boolean): Promise<Hex> {
+  console.log(`\n📦 Deploying contract...`);
+  const fs = await import('fs/promises');
+  const path = await import('path');
+  const jsonPath = path.join(process.cwd(), 'out', 'RockPaperScissors.sol', 'RockPaperScissors.json');
+  const jsonContent = await fs.readFile(jsonPath, 'utf-8');
+  const abiJson = JSON.parse(jsonContent);
+  const abi = abiJson.abi;
+  
+  const bytecode = (abiJson.bytecode?.object || abiJson.bytecode) as Hex;
+  if (!bytecode || bytecode === '0x') {
+    throw new Error('Bytecode not found. Run `forge build` first.');
+  }
+  
+  const gasOpts = isLocal ? {} : { gasPrice: ((await publicClient.getGasPrice()) * 120n) / 100n };
+  
+  const hash = await walletClient.deployContract({ abi, bytecode, ...gasOpts });
+  console.log(`   Deployment TX: ${hash}`);
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (!receipt.contractAddress) throw new Error('Deployment failed: no contract address');
+  console.log(`   ✅ Contract deployed at: ${receipt.contractAddress}\n`);
+  return receipt.contractAddress;
+}
+
 export function makeCommit(move: number) {
   // Use crypto to generate random 32-byte salt/nonce
   const salt = crypto.getRandomValues(new Uint8Array(32));
@@ -0,0 +1,189 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { GameStatus, GameView } from './gameView.js';
+
+type Hex = `0x${string}`;
+
+/** A commitment secret; gameId is unset between commit and the createGame receipt */
+export type VaultEntry = {
+  chainId: number;
+  contract: Hex;
+  gameId?: bigint;
+  player: Hex;
+  move: number;
+  salt: Hex;
+  nonce: Hex;
+  commitment: Hex;
+  createdAt: string;
+};
+
+export type VaultKey = Pick<VaultEntry, 'chainId' | 'contract' | 'gameId' | 'player'>;
+
+export interface CommitmentVault {
+  readonly path: string;
+  /** Persist a secret before the commitment is sent on-chain */
+  save(entry: Omit<VaultEntry, 'createdAt'>): Promise<VaultEntry>;
+  /** Attach the gameId once createGame has been mined */
+  assignGameId(commitment: Hex, gameId: bigint): Promise<void>;
+  get(key: VaultKey): VaultEntry | undefined;
+  findByCommitment(commitment: Hex): VaultEntry | undefined;
+  list(): VaultEntry[];
+  /** Drop entries whose game is COMPLETED or CANCELLED; returns how many were removed */
+  prune(readStatus: (entry: VaultEntry) => Promise<GameStatus | undefined>): Promise<number>;
+  remove(commitment: Hex): Promise<boolean>;
+}
+
+type VaultFile = {
+  version: 1;
+  kdfSalt: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+};
+
+type StoredEntry = Omit<VaultEntry, 'gameId'> & { gameId?: string };
+
+const DEFAULT_VAULT_PATH = path.join('.rps', 'vault.json');
+
+function deriveKey(passphrase: string, kdfSalt: Buffer): Buffer {
+  return scryptSync(passphrase, kdfSalt, 32);
+}
+
+function sameAddress(a: string, b: string) {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function keyMatches(e: VaultEntry, k: VaultKey) {
+  return e.chainId === k.chainId && sameAddress(e.contract, k.contract) &&
+    e.gameId === k.gameId && sameAddress(e.player, k.player);
+}
+
+function encrypt(entries: VaultEntry[], passphrase: string, kdfSalt: Buffer): VaultFile {
+  const stored: StoredEntry[] = entries.map(e => ({ ...e, gameId: e.gameId?.toString() }));
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(passphrase, kdfSalt), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(stored), 'utf8'), cipher.final()]);
+  return {
+    version: 1,
+    kdfSalt: kdfSalt.toString('hex'),
+    iv: iv.toString('hex'),
+    tag: cipher.getAuthTag().toString('hex'),
+    ciphertext: ciphertext.toString('hex')
+  };
+}
+
+function decrypt(file: VaultFile, passphrase: string): VaultEntry[] {
+  const decipher = createDecipheriv('aes-256-gcm', deriveKey(passphrase, Buffer.from(file.kdfSalt, 'hex')), Buffer.from(file.iv, 'hex'));
+  decipher.setAuthTag(Buffer.from(file.tag, 'hex'));
+  let plain: string;
+  try {
+    plain = Buffer.concat([decipher.update(Buffer.from(file.ciphertext, 'hex')), decipher.final()]).toString('utf8');
+  } catch {
+    throw new Error('Commitment vault could not be decrypted: wrong VAULT_PASSPHRASE or corrupted file');
+  }
+  const stored = JSON.parse(plain) as StoredEntry[];
+  return stored.map(e => ({ ...e, gameId: e.gameId !== undefined ? BigInt(e.gameId) : undefined }));
+}
+
+/**
+ * Open (or create) the encrypted commitment vault.
+ * Secrets are written before the commit tx is sent, so a crash between joinGame and reveal
+ * never loses the salt/nonce.
+ */
+export async function openVault(passphrase: string, filePath: string = DEFAULT_VAULT_PATH): Promise<CommitmentVault> {
+  if (!passphrase) throw new Error('VAULT_PASSPHRASE is required to open the commitment vault');
+  const resolved = path.resolve(filePath);
+
+  let kdfSalt: Buffer;
+  let entries: VaultEntry[] = [];
+  try {
+    const file = JSON.parse(await fs.readFile(resolved, 'utf-8')) as VaultFile;
+    if (file.version !== 1) throw new Error(`Unsupported vault version ${file.version}`);
+    kdfSalt = Buffer.from(file.kdfSalt, 'hex');
+    entries = decrypt(file, passphrase);
+  } catch (err: any) {
+    if (err?.code !== 'ENOENT') throw err;
+    kdfSalt = randomBytes(16);
+  }
+
+  // Write to a temp file and rename so a crash mid-write never truncates the vault
+  async function write() {
+    await fs.mkdir(path.dirname(resolved), { recursive: true });
+    const tmp = `${resolved}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(encrypt(entries, passphrase, kdfSalt), null, 2), { mode: 0o600 });
+    await fs.rename(tmp, resolved);
+  }
+
+  // Concurrent scenarios share one vault: queue writes so two never race on the temp file
+  let writing: Promise<void> = Promise.resolve();
+  function persist(): Promise<void> {
+    writing = writing.then(write, write);
+    return writing;
+  }
+
+  return {
+    path: resolved,
+
+    async save(entry) {
+      const full: VaultEntry = { ...entry, createdAt: new Date().toISOString() };
+      entries = entries.filter(e => e.commitment.toLowerCase() !== entry.commitment.toLowerCase());
+      entries.push(full);
+      await persist();
+      return full;
+    },
+
+    async assignGameId(commitment, gameId) {
+      const e = entries.find(x => x.commitment.toLowerCase() === commitment.toLowerCase());
+      if (!e) throw new Error(`No vault entry for commitment ${commitment}`);
+      e.gameId = gameId;
+      await persist();
+    },
+
+    get(key) {
+      return entries.find(e => keyMatches(e, key));
+    },
+
+    findByCommitment(commitment) {
+      return entries.find(e => e.commitment.toLowerCase() === commitment.toLowerCase());
+    },
+
+    list() {
+      return [...entries];
+    },
+
+    async prune(readStatus) {
+      const keep: VaultEntry[] = [];
+      for (const e of entries) {
+        if (e.gameId === undefined) { keep.push(e); continue; }
+        const status = await readStatus(e);
+        if (status !== GameStatus.COMPLETED && status !== GameStatus.CANCELLED) keep.push(e);
+      }
+      const removed = entries.length - keep.length;
+      if (removed > 0) {
+        entries = keep;
+        await persist();
+      }
+      return removed;
+    },
+
+    async remove(commitment) {
+      const before = entries.length;
+      entries = entries.filter(e => e.commitment.toLowerCase() !== commitment.toLowerCase());
+      if (entries.length === before) return false;
+      await persist();
+      return true;
+    }
+  };
+}
+
+/**
+ * Rebuild the reveal arguments for `player` from the on-chain commitment (getGame data required).
+ */
+export function recoverReveal(vault: CommitmentVault, game: GameView, player: Hex): { move: number; salt: Hex; nonce: Hex } | undefined {
+  if (!game.commitments) throw new Error('recoverReveal needs a GameView decoded from getGame()');
+  const commitment = sameAddress(game.player1, player) ? game.commitments[0]
+    : sameAddress(game.player2, player) ? game.commitments[1] : undefined;
+  const entry = commitment && vault.findByCommitment(commitment);
+  return entry && { move: entry.move, salt: entry.salt, nonce: entry.nonce };
+}
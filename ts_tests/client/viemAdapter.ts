@@ -0,0 +1,240 @@
+import { decodeEventLog, getAbiItem, numberToHex, Hex, PublicClient, WalletClient, Account, TransactionReceipt, TransactionReceiptNotFoundError, TransactionNotFoundError } from 'viem';
+import { ChainAdapter, DecodedEvent, FeeCaps, FeePolicy, SendResult, PendingTx, requireLocal, optionalBigInt, defaultFeePolicy, scaleFee } from './chainAdapter.js';
+import { createTxPipeline, txError, TxBackend, TxFees, TxRequest } from './txPipeline.js';
+
+export type ViemClients = {
+  publicClient: PublicClient;
+  walletClient: WalletClient;
+  account: Account;
+  isLocal: boolean;
+  /** Defaults to zero-fee on Anvil, 1.3x the estimate elsewhere */
+  fees?: FeePolicy;
+};
+
+type RawLog = {
+  address: string;
+  data: Hex;
+  topics: readonly Hex[];
+  blockNumber?: bigint | null;
+  transactionHash?: Hex | null;
+  logIndex?: number | null;
+};
+
+export function decodeRpsLogs(abi: any, address: Hex, logs: readonly RawLog[]): DecodedEvent[] {
+  const decoded: DecodedEvent[] = [];
+  for (const log of logs) {
+    if (log.address.toLowerCase() !== address.toLowerCase()) continue;
+    try {
+      const d = decodeEventLog({ abi, data: log.data, topics: log.topics as [Hex, ...Hex[]] }) as unknown as DecodedEvent;
+      decoded.push({
+        eventName: d.eventName,
+        args: d.args,
+        blockNumber: log.blockNumber ?? undefined,
+        transactionHash: log.transactionHash ?? undefined,
+        logIndex: log.logIndex ?? undefined
+      });
+    } catch {}
+  }
+  return decoded;
+}
+
+/**
+ * viem implementation of ChainAdapter. `clients` holds one wallet per player, all on the same RPC.
+ */
+export function makeViemAdapter(clients: ViemClients[], address: Hex, abi: any): ChainAdapter {
+  if (clients.length === 0) throw new Error('makeViemAdapter needs at least one wallet');
+  const { publicClient, isLocal } = clients[0];
+  const policy = clients[0].fees ?? defaultFeePolicy(isLocal);
+
+  // Anvil test methods; the clients are typed for the public JSON-RPC schema only
+  function testRpc<T = unknown>(method: string, params: unknown[] = []): Promise<T> {
+    return (publicClient as any).request({ method, params });
+  }
+
+  function walletFor(from: Hex): ViemClients {
+    const c = clients.find(x => x.account.address.toLowerCase() === from.toLowerCase());
+    if (!c) throw new Error(`viem adapter has no wallet for ${from}`);
+    return c;
+  }
+
+  // Zero-fee txs keep Anvil assertions exact; a market policy bids a buffer over the estimate
+  async function getGasOptions(): Promise<TxFees> {
+    if (policy.mode === 'zero') return { gasPrice: 0n };
+    try {
+      const fees = await publicClient.estimateFeesPerGas();
+      if (fees.maxFeePerGas && fees.maxPriorityFeePerGas) {
+        const maxFeePerGas = scaleFee(policy, fees.maxFeePerGas);
+        const priority = scaleFee(policy, fees.maxPriorityFeePerGas);
+        return { maxFeePerGas, maxPriorityFeePerGas: priority > maxFeePerGas ? maxFeePerGas : priority };
+      }
+    } catch {}
+    const gasPrice = await publicClient.getGasPrice();
+    return { gasPrice: scaleFee(policy, gasPrice) };
+  }
+
+  async function feeCaps(): Promise<FeeCaps | undefined> {
+    if (policy.mode === 'zero') return undefined;
+    const opts = await getGasOptions();
+    return 'maxFeePerGas' in opts && opts.maxFeePerGas !== undefined
+      ? { maxFeePerGas: opts.maxFeePerGas, maxPriorityFeePerGas: opts.maxPriorityFeePerGas }
+      : undefined;
+  }
+
+  function toResult(tx: Pick<SendResult, 'hash' | 'from' | 'functionName' | 'args' | 'value'>, receipt: TransactionReceipt): SendResult {
+    if (receipt.status !== 'success') {
+      throw txError(tx, { kind: 'reverted', hash: tx.hash, blockNumber: receipt.blockNumber, gasUsed: receipt.gasUsed });
+    }
+    return {
+      ...tx,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed,
+      effectiveGasPrice: receipt.effectiveGasPrice ?? 0n,
+      // Not in viem's generic receipt type; kept as-is from the RPC response on rollups that report it
+      l1Fee: optionalBigInt((receipt as { l1Fee?: unknown }).l1Fee),
+      events: decodeRpsLogs(abi, address, receipt.logs)
+    };
+  }
+
+  async function estimateGasWithBuffer(account: Account, functionName: string, args: unknown[], value?: bigint): Promise<bigint> {
+    try {
+      const est = await publicClient.estimateContractGas({ account, address, abi, functionName, args, value });
+      return isLocal ? est : (est * 130n) / 100n;
+    } catch {
+      // Last resort; the write itself will surface the revert
+      return 1_500_000n;
+    }
+  }
+
+  const backend: TxBackend = {
+    async simulate({ from, functionName, args, value }) {
+      const { account } = walletFor(from);
+      await publicClient.simulateContract({ address, abi, functionName, args: args as unknown[], value, account });
+    },
+    estimateGas: ({ from, functionName, args, value }) => estimateGasWithBuffer(walletFor(from).account, functionName, args as unknown[], value),
+    async broadcast({ from, functionName, args, value }, { nonce, gas, fees }) {
+      const { walletClient, account } = walletFor(from);
+      return walletClient.writeContract({
+        address, abi, functionName, args, value, gas, nonce, account, chain: walletClient.chain, ...fees
+      } as any);
+    },
+    async receipt(tx) {
+      try {
+        return toResult(tx, await publicClient.getTransactionReceipt({ hash: tx.hash }));
+      } catch (err) {
+        if (err instanceof TransactionReceiptNotFoundError) return undefined;
+        throw err;
+      }
+    },
+    async known(hash) {
+      try {
+        await publicClient.getTransaction({ hash });
+        return true;
+      } catch (err) {
+        if (err instanceof TransactionNotFoundError) return false;
+        throw err;
+      }
+    },
+    nonceAt: (from, blockTag) => publicClient.getTransactionCount({ address: from, blockTag }),
+    fees: getGasOptions
+  };
+  const pipeline = createTxPipeline(backend, policy);
+  const request = (from: Hex, functionName: string, args: unknown[], value?: bigint): TxRequest =>
+    ({ from: walletFor(from).account.address, functionName, args, value: value ?? 0n });
+
+  return {
+    library: 'viem',
+    contract: address,
+    isLocal,
+    accounts: clients.map(c => c.account.address),
+
+    async chainId() {
+      return publicClient.getChainId();
+    },
+
+    async send(from, functionName, args, value, opts) {
+      return pipeline.send(request(from, functionName, args, value), opts);
+    },
+
+    async simulate(from, functionName, args, value) {
+      return backend.simulate(request(from, functionName, args, value));
+    },
+
+    async submit(from, functionName, args, value, opts) {
+      return pipeline.submit(request(from, functionName, args, value), opts);
+    },
+
+    async receipt(tx: PendingTx) {
+      return backend.receipt(tx);
+    },
+
+    feeCaps,
+
+    async read<T>(functionName: string, args: unknown[]) {
+      return await publicClient.readContract({ address, abi, functionName, args }) as T;
+    },
+
+    async getLogs({ eventName, gameId, fromBlock, toBlock }) {
+      const event = eventName ? getAbiItem({ abi, name: eventName }) as any : undefined;
+      if (eventName && !event) throw new Error(`Unknown event ${eventName}`);
+      const logs = await publicClient.getLogs({
+        address,
+        ...(event ? { event, args: gameId !== undefined ? { gameId } : undefined } : {}),
+        fromBlock,
+        toBlock: toBlock ?? 'latest'
+      } as any);
+      const decoded = decodeRpsLogs(abi, address, logs as RawLog[]);
+      // Without an event filter the topic filter cannot be applied server-side
+      return gameId !== undefined && !event ? decoded.filter(e => e.args.gameId === gameId) : decoded;
+    },
+
+    async getBalance(addr) {
+      return publicClient.getBalance({ address: addr });
+    },
+
+    async setBalance(addr, value) {
+      requireLocal(isLocal, 'viem', 'setBalance');
+      await testRpc('anvil_setBalance', [addr, numberToHex(value)]);
+    },
+
+    async blockNumber() {
+      // viem caches the block number for its polling interval by default; callers need the live head
+      return publicClient.getBlockNumber({ cacheTime: 0 });
+    },
+
+    async now() {
+      return (await publicClient.getBlock({ blockTag: 'latest' })).timestamp;
+    },
+
+    async blockTimestamp(blockNumber) {
+      return (await publicClient.getBlock({ blockNumber })).timestamp;
+    },
+
+    async increaseTime(seconds) {
+      requireLocal(isLocal, 'viem', 'increaseTime');
+      await testRpc('evm_increaseTime', [Number(seconds)]);
+    },
+
+    async mine() {
+      requireLocal(isLocal, 'viem', 'mine');
+      await testRpc('evm_mine');
+    },
+
+    async setNextBlockTimestamp(timestamp) {
+      requireLocal(isLocal, 'viem', 'setNextBlockTimestamp');
+      await testRpc('evm_setNextBlockTimestamp', [Number(timestamp)]);
+    },
+
+    async snapshot() {
+      requireLocal(isLocal, 'viem', 'snapshot');
+      return testRpc<Hex>('evm_snapshot');
+    },
+
+    async revert(id) {
+      requireLocal(isLocal, 'viem', 'revert');
+      const ok = await testRpc<boolean>('evm_revert', [id]);
+      if (!ok) throw new Error(`evm_revert(${id}) failed: unknown or already used snapshot`);
+      // Account nonces went back with the chain
+      pipeline.resetNonces();
+    }
+  };
+}
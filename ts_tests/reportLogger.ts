@@ -1,11 +1,149 @@
 import fs from 'fs/promises';
 import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+
+type Hex = `0x${string}`;
 
 let logFile: fs.FileHandle | null = null;
 const originalLog = console.log;
 const originalError = console.error;
 const originalWarn = console.warn;
 
+export type ErrorReport = { message: string; stack?: string; source?: 'uncaughtException' | 'unhandledRejection' | 'run' };
+
+export type StepReport = {
+  name: string;
+  player?: string;
+  txHash?: Hex;
+  gasUsed?: bigint;
+  blockNumber?: bigint;
+  durationMs?: number;
+  status: 'passed' | 'failed';
+  error?: ErrorReport;
+};
+
+export type AssertionReport = {
+  name: string;
+  passed: boolean;
+  expected?: string;
+  actual?: string;
+};
+
+export type ScenarioReport = {
+  suite: string;
+  name: string;
+  status: 'passed' | 'failed' | 'skipped';
+  startedAt: string;
+  durationMs: number;
+  gameId?: bigint;
+  steps: StepReport[];
+  assertions: AssertionReport[];
+  error?: ErrorReport;
+};
+
+export type ChainMetadata = {
+  chainId?: number;
+  contract?: Hex;
+  library?: string;
+  /** Block the run started at; the end of the range is the last block a recorded step landed in */
+  fromBlock?: bigint;
+  toBlock?: bigint;
+};
+
+/** Machine-readable record of one run, written next to the .log as .json and .junit.xml */
+export type RunRecord = {
+  testName: string;
+  env: string;
+  status: 'passed' | 'failed';
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  chain: ChainMetadata;
+  scenarios: ScenarioReport[];
+  errors: ErrorReport[];
+  /** Extra run-level data such as the gas profile */
+  attachments: Record<string, unknown>;
+  logFile: string;
+};
+
+let run: RunRecord | null = null;
+let basePath: string | null = null;
+let runStartedMs = 0;
+
+type ConsoleLevel = 'log' | 'error' | 'warn';
+
+/**
+ * The scenario being recorded. Sequential runs share one slot; scenarios running concurrently each get
+ * their own through `inScenarioScope`, which also holds back their console output until they finish.
+ */
+type ScenarioSlot = {
+  current: ScenarioReport | null;
+  startedMs: number;
+  buffer?: { level: ConsoleLevel; args: any[] }[];
+};
+
+const sharedSlot: ScenarioSlot = { current: null, startedMs: 0 };
+const scopes = new AsyncLocalStorage<ScenarioSlot>();
+const openScopes = new Set<ScenarioSlot>();
+const slot = () => scopes.getStore() ?? sharedSlot;
+
+function toErrorReport(err: unknown, source?: ErrorReport['source']): ErrorReport {
+  if (err instanceof Error) return { message: err.message, stack: err.stack, source };
+  return { message: String(err), source };
+}
+
+async function onUncaught(err: unknown, source: 'uncaughtException' | 'unhandledRejection') {
+  console.error(`💥 ${source}:`, err instanceof Error ? err.stack ?? err.message : err);
+  run?.errors.push(toErrorReport(err, source));
+  for (const s of [sharedSlot, ...openScopes]) {
+    if (s.current) scopes.run(s, () => endScenario('failed', err));
+    flush(s);
+  }
+  await stopLogging().catch(() => {});
+  process.exit(1);
+}
+const onUncaughtException = (err: unknown) => { void onUncaught(err, 'uncaughtException'); };
+const onUnhandledRejection = (err: unknown) => { void onUncaught(err, 'unhandledRejection'); };
+
+const originals: Record<ConsoleLevel, (...args: any[]) => void> = { log: originalLog, error: originalError, warn: originalWarn };
+const filePrefixes: Record<ConsoleLevel, string> = { log: '', error: '[ERROR] ', warn: '[WARN] ' };
+
+function emit(level: ConsoleLevel, args: any[]) {
+  originals[level](...args);
+  if (logFile) {
+    const msg = args.map(a => typeof a === 'object' ? JSON.stringify(a, null, 2) : String(a)).join(' ') + '\n';
+    logFile.write(filePrefixes[level] + msg).catch(() => {});
+  }
+}
+
+function write(level: ConsoleLevel, args: any[]) {
+  const buffer = scopes.getStore()?.buffer;
+  if (buffer) buffer.push({ level, args });
+  else emit(level, args);
+}
+
+// Print a scope's held-back output as one contiguous block
+function flush(s: ScenarioSlot) {
+  const lines = s.buffer?.splice(0) ?? [];
+  for (const { level, args } of lines) emit(level, args);
+}
+
+/**
+ * Run `fn` with its own scenario slot so begin/record/endScenario calls from concurrent scenarios never
+ * mix. Console output inside the scope is written in one block when `fn` settles instead of interleaving.
+ */
+export async function inScenarioScope<T>(fn: () => Promise<T>): Promise<T> {
+  const scope: ScenarioSlot = { current: null, startedMs: 0, buffer: [] };
+  openScopes.add(scope);
+  try {
+    return await scopes.run(scope, fn);
+  } finally {
+    openScopes.delete(scope);
+    if (scope.current) scopes.run(scope, () => endScenario('failed', new Error('Scenario scope ended before the scenario did')));
+    flush(scope);
+  }
+}
+
 export async function startLogging(testName: string, env: string): Promise<void> {
   const reportsDir = path.join(process.cwd(), 'reports');
   try {
@@ -17,40 +155,188 @@ export async function startLogging(testName: string, env: string): Promise<void>
   const filePath = path.join(reportsDir, fileName);
 
   logFile = await fs.open(filePath, 'w');
+  basePath = filePath.replace(/\.log$/, '');
+  run = { testName, env, status: 'passed', startedAt: new Date().toISOString(), chain: {}, scenarios: [], errors: [], attachments: {}, logFile: filePath };
+  runStartedMs = Date.now();
+  process.on('uncaughtException', onUncaughtException);
+  process.on('unhandledRejection', onUnhandledRejection);
   
   // Write header
   const header = `\n${'='.repeat(80)}\nTest Run: ${testName}\nEnvironment: ${env}\nStarted: ${new Date().toISOString()}\n${'='.repeat(80)}\n\n`;
   await logFile.write(header);
 
   // Override console methods
-  console.log = (...args: any[]) => {
-    originalLog(...args);
-    if (logFile) {
-      const msg = args.map(a => typeof a === 'object' ? JSON.stringify(a, null, 2) : String(a)).join(' ') + '\n';
-      logFile.write(msg).catch(() => {});
-    }
-  };
+  console.log = (...args: any[]) => write('log', args);
+  console.error = (...args: any[]) => write('error', args);
+  console.warn = (...args: any[]) => write('warn', args);
 
-  console.error = (...args: any[]) => {
-    originalError(...args);
-    if (logFile) {
-      const msg = args.map(a => typeof a === 'object' ? JSON.stringify(a, null, 2) : String(a)).join(' ') + '\n';
-      logFile.write(`[ERROR] ${msg}`).catch(() => {});
-    }
-  };
+  console.log(`📄 Logging to: ${filePath}`);
+}
+
+/** Attach chain metadata to the run; later calls merge into earlier ones */
+export function setChainMetadata(meta: ChainMetadata): void {
+  if (run) run.chain = { ...run.chain, ...meta };
+}
+
+/** Attach run-level data to the JSON run record */
+export function attachToRun(key: string, value: unknown): void {
+  if (run) run.attachments[key] = value;
+}
+
+export function beginScenario(suite: string, name: string): void {
+  if (!run) return;
+  const s = slot();
+  if (s.current) endScenario('failed', new Error('Scenario was not ended before the next one began'));
+  s.current = { suite, name, status: 'passed', startedAt: new Date().toISOString(), durationMs: 0, steps: [], assertions: [] };
+  s.startedMs = Date.now();
+}
+
+export function recordStep(step: StepReport): void {
+  const { current } = slot();
+  if (!current) return;
+  current.steps.push(step);
+  if (step.blockNumber !== undefined && run) {
+    const { fromBlock, toBlock } = run.chain;
+    if (fromBlock === undefined || step.blockNumber < fromBlock) run.chain.fromBlock = step.blockNumber;
+    if (toBlock === undefined || step.blockNumber > toBlock) run.chain.toBlock = step.blockNumber;
+  }
+}
+
+export function recordAssertion(assertion: AssertionReport): void {
+  slot().current?.assertions.push(assertion);
+}
+
+export function setScenarioGameId(gameId: bigint): void {
+  const { current } = slot();
+  if (current) current.gameId = gameId;
+}
+
+export function endScenario(status: 'passed' | 'failed', error?: unknown): void {
+  const s = slot();
+  const { current } = s;
+  if (!current || !run) return;
+  current.status = status;
+  current.durationMs = Date.now() - s.startedMs;
+  if (error !== undefined) current.error = toErrorReport(error);
+  if (status === 'failed') run.status = 'failed';
+  run.scenarios.push(current);
+  s.current = null;
+}
+
+/** Record a scenario that was run and timed elsewhere (e.g. a forge test parsed from JSON) */
+export function recordScenario(report: ScenarioReport): void {
+  if (!run) return;
+  if (report.status === 'failed') run.status = 'failed';
+  run.scenarios.push(report);
+}
+
+/** Record scenarios that never ran because an earlier one failed */
+export function skipScenario(suite: string, name: string): void {
+  run?.scenarios.push({ suite, name, status: 'skipped', startedAt: new Date().toISOString(), durationMs: 0, steps: [], assertions: [] });
+}
+
+function jsonReplacer(_key: string, value: unknown) {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
 
-  console.warn = (...args: any[]) => {
-    originalWarn(...args);
-    if (logFile) {
-      const msg = args.map(a => typeof a === 'object' ? JSON.stringify(a, null, 2) : String(a)).join(' ') + '\n';
-      logFile.write(`[WARN] ${msg}`).catch(() => {});
+function xmlEscape(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;')
+    // XML 1.0 forbids most control characters (e.g. the ESC of ANSI colour codes)
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function scenarioOutput(s: ScenarioReport): string {
+  const lines = s.steps.map(st =>
+    `${st.status === 'passed' ? '✓' : '✗'} ${st.name}${st.player ? ` (${st.player})` : ''}` +
+    `${st.txHash ? ` tx=${st.txHash}` : ''}${st.gasUsed !== undefined ? ` gas=${st.gasUsed}` : ''}` +
+    `${st.durationMs !== undefined ? ` ${st.durationMs}ms` : ''}`);
+  for (const a of s.assertions) {
+    lines.push(`${a.passed ? '✓' : '✗'} assert ${a.name}${a.expected !== undefined ? `: expected ${a.expected}, actual ${a.actual}` : ''}`);
+  }
+  return lines.join('\n');
+}
+
+export function toJUnit(record: RunRecord): string {
+  const suites = new Map<string, ScenarioReport[]>();
+  for (const s of record.scenarios) suites.set(s.suite, [...(suites.get(s.suite) ?? []), s]);
+
+  const props = Object.entries(record.chain)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `      <property name="${k}" value="${xmlEscape(String(v))}"/>`);
+  const properties = props.length > 0 ? ['    <properties>', ...props, '    </properties>'] : [];
+
+  const failures = record.scenarios.filter(s => s.status === 'failed').length;
+  const out: string[] = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  out.push(`<testsuites name="${xmlEscape(record.testName)}" tests="${record.scenarios.length + record.errors.length}" ` +
+    `failures="${failures}" errors="${record.errors.length}" time="${seconds(record.durationMs ?? 0)}">`);
+
+  for (const [name, scenarios] of suites) {
+    out.push(`  <testsuite name="${xmlEscape(name)}" tests="${scenarios.length}" failures="${scenarios.filter(s => s.status === 'failed').length}" ` +
+      `errors="0" skipped="${scenarios.filter(s => s.status === 'skipped').length}" ` +
+      `time="${seconds(scenarios.reduce((sum, s) => sum + s.durationMs, 0))}" timestamp="${scenarios[0].startedAt}">`);
+    out.push(...properties);
+    for (const s of scenarios) {
+      out.push(`    <testcase classname="${xmlEscape(`${record.testName}.${s.suite}`)}" name="${xmlEscape(s.name)}" time="${seconds(s.durationMs)}">`);
+      if (s.status === 'skipped') out.push('      <skipped/>');
+      if (s.status === 'failed') {
+        out.push(`      <failure message="${xmlEscape(s.error?.message ?? 'failed')}" type="AssertionError">${xmlEscape(s.error?.stack ?? s.error?.message ?? '')}</failure>`);
+      }
+      const output = scenarioOutput(s);
+      if (output) out.push(`      <system-out>${xmlEscape(output)}</system-out>`);
+      out.push('    </testcase>');
     }
-  };
+    out.push('  </testsuite>');
+  }
 
-  console.log(`📄 Logging to: ${filePath}`);
+  // Errors outside any scenario (setup failures, uncaught exceptions) get their own suite
+  if (record.errors.length > 0) {
+    out.push(`  <testsuite name="errors" tests="${record.errors.length}" failures="0" errors="${record.errors.length}" skipped="0" time="0" timestamp="${record.startedAt}">`);
+    out.push(...properties);
+    record.errors.forEach((e, i) => {
+      out.push(`    <testcase classname="${xmlEscape(`${record.testName}.errors`)}" name="${xmlEscape(`${e.source ?? 'run'} #${i + 1}`)}" time="0">`);
+      out.push(`      <error message="${xmlEscape(e.message)}" type="${e.source ?? 'run'}">${xmlEscape(e.stack ?? e.message)}</error>`);
+      out.push('    </testcase>');
+    });
+    out.push('  </testsuite>');
+  }
+  out.push('</testsuites>');
+  return out.join('\n') + '\n';
 }
 
-export async function stopLogging(): Promise<void> {
+/**
+ * Close the log and write the JSON run record and JUnit XML. Pass the error that ended the run, if any.
+ */
+export async function stopLogging(error?: unknown): Promise<void> {
+  process.off('uncaughtException', onUncaughtException);
+  process.off('unhandledRejection', onUnhandledRejection);
+
+  if (run && basePath) {
+    for (const s of openScopes) {
+      if (s.current) scopes.run(s, () => endScenario('failed', new Error('Run ended while a scenario was still in progress')));
+      flush(s);
+    }
+    if (error !== undefined) {
+      if (sharedSlot.current) endScenario('failed', error);
+      else run.errors.push(toErrorReport(error, 'run'));
+    } else if (sharedSlot.current) {
+      endScenario('failed', new Error('Run ended while a scenario was still in progress'));
+    }
+    if (run.errors.length > 0) run.status = 'failed';
+    run.finishedAt = new Date().toISOString();
+    run.durationMs = Date.now() - runStartedMs;
+    const record = run;
+    const base = basePath;
+    run = null;
+    basePath = null;
+    await fs.writeFile(`${base}.json`, JSON.stringify(record, jsonReplacer, 2));
+    await fs.writeFile(`${base}.junit.xml`, toJUnit(record));
+    console.log(`📄 Run record: ${base}.json (${record.status}, ${record.scenarios.length} scenario(s))`);
+  }
+
   if (logFile) {
     const footer = `\n${'='.repeat(80)}\nFinished: ${new Date().toISOString()}\n${'='.repeat(80)}\n`;
     await logFile.write(footer);
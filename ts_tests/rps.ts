@@ -0,0 +1,270 @@
+import { formatEther, Hex } from 'viem';
+import { loadEnv, makeClients, verifyEnvironment, getDeployedContract, makeCommit } from './client/utils.js';
+import { makeViemAdapter } from './client/viemAdapter.js';
+import { makeRpsClient, RpsClient, TxResult } from './client/rpsClient.js';
+import { GameStatus, GameView, Move, TieChoice, ZERO_ADDRESS } from './client/gameView.js';
+import { openVault, recoverReveal, CommitmentVault } from './client/vault.js';
+import { openIndexer } from './client/indexer.js';
+import { nextActions, formatDeadline, GameAction } from './client/nextAction.js';
+import { ChainAdapter } from './client/chainAdapter.js';
+import { createAutoRevealAgent } from './client/autoReveal.js';
+import { commitmentOf } from './client/commitment.js';
+
+/*
+ * Play real games against CONTRACT_ADDRESS from the command line.
+ * Commitment secrets go to the encrypted vault (VAULT_PASSPHRASE) before any commit is sent,
+ * so `reveal <id>` needs nothing but the game id.
+ */
+
+const USAGE = `Usage: yarn rps <command> [--env <profile>] [--wallet <n>]
+
+  create --move <rock|paper|scissors>     Create a game (stakes 0.001 ETH)
+  join <id> --move <rock|paper|scissors>  Join a waiting game
+  reveal <id>                             Reveal your move from the vault
+  tie <id> rematch|split                  Choose how to resolve a tie
+  cancel <id>                             Cancel your game before anyone joins
+  claim <id>                              Settle a game whose reveal deadline passed
+  status <id>                             Show deadlines and the next action
+  list [--open]                           Your games, or games waiting for a player
+  agent [--margin <s>] [--poll <s>]       Stay online and reveal your games as soon as someone joins
+
+  --env <profile> picks a profile from rps.config.ts (default: TEST_ENV, else anvil)
+  --wallet <n> signs as player n: 1 = PRIVATE_KEY, 2 = PRIVATE_KEY_2, or the n-th MNEMONIC account`;
+
+type Cli = {
+  command?: string;
+  positionals: string[];
+  flags: Record<string, string | true>;
+};
+
+const VALUE_FLAGS = ['env', 'wallet', 'move', 'margin', 'poll'];
+const COMMANDS = ['create', 'join', 'reveal', 'tie', 'cancel', 'claim', 'status', 'list', 'agent'];
+
+function parseArgs(argv: string[]): Cli {
+  const cli: Cli = { positionals: [], flags: {} };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith('--')) {
+      const eq = arg.indexOf('=');
+      const [name, inline] = eq < 0 ? [arg.slice(2), undefined] : [arg.slice(2, eq), arg.slice(eq + 1)];
+      if (inline !== undefined) cli.flags[name] = inline;
+      else if (VALUE_FLAGS.includes(name) && argv[i + 1] !== undefined) cli.flags[name] = argv[++i];
+      else cli.flags[name] = true;
+    } else if (cli.command === undefined) {
+      cli.command = arg;
+    } else {
+      cli.positionals.push(arg);
+    }
+  }
+  return cli;
+}
+
+function parseMove(value: string | true | undefined): Move {
+  if (typeof value !== 'string') throw new Error('--move <rock|paper|scissors> is required');
+  const upper = value.toUpperCase();
+  if (upper in Move && isNaN(Number(upper))) return Move[upper as keyof typeof Move];
+  if (/^[0-2]$/.test(value)) return Number(value) as Move;
+  throw new Error(`Invalid move "${value}" (expected rock, paper or scissors)`);
+}
+
+function parseGameId(cli: Cli): bigint {
+  const id = cli.positionals[0];
+  if (!id || !/^\d+$/.test(id)) throw new Error(`${cli.command} needs a game id, e.g. yarn rps ${cli.command} 12`);
+  return BigInt(id);
+}
+
+function parseSeconds(cli: Cli, name: string): number | undefined {
+  const value = cli.flags[name];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !/^[1-9]\d*$/.test(value)) {
+    throw new Error(`--${name} must be a positive whole number of seconds, got "${value === true ? '' : value}"\n\n${USAGE}`);
+  }
+  return Number(value);
+}
+
+function describeAction(a: GameAction, gameId: bigint, now: bigint): string {
+  switch (a.kind) {
+    case 'join': return `join it: yarn rps join ${gameId} --move <rock|paper|scissors>`;
+    case 'cancel': return `cancel it: yarn rps cancel ${gameId}${a.note ? ` (${a.note})` : ''}`;
+    case 'reveal': return `reveal before ${formatDeadline(a.deadline, now)}: yarn rps reveal ${gameId}`;
+    case 'tie': return `choose before ${formatDeadline(a.deadline, now)}: yarn rps tie ${gameId} rematch|split`;
+    case 'claim': return `reveal deadline passed, anyone can settle: yarn rps claim ${gameId}`;
+    case 'finalizeTie': return `tie deadline passed, any call splits the pot: yarn rps tie ${gameId} split`;
+    case 'wait': return a.until !== undefined ? `${a.reason} until ${formatDeadline(a.until, now)}` : a.reason;
+    case 'none': return a.reason;
+  }
+}
+
+async function printStatus(client: RpsClient, adapter: ChainAdapter, vault: CommitmentVault, gameId: bigint) {
+  const [game, now] = await Promise.all([client.getGame(gameId), adapter.now()]);
+  if (game.player1 === ZERO_ADDRESS) throw new Error(`Game ${gameId} does not exist`);
+  const me = client.player;
+  const tag = (addr: Hex) => (addr.toLowerCase() === me.toLowerCase() ? ' (you)' : '');
+
+  console.log(`\n🎮 Game ${gameId}: ${GameStatus[game.status]}`);
+  console.log(`   Player 1: ${game.player1}${tag(game.player1)}`);
+  console.log(`   Player 2: ${game.hasOpponent ? `${game.player2}${tag(game.player2)}` : '-'}`);
+  console.log(`   Stake:    ${formatEther(game.stake)} ETH each`);
+  // Deadline fields keep their last values after the game ends; only the active one matters
+  if (game.status === GameStatus.REVEAL_PHASE && game.revealed) {
+    console.log(`   Reveal deadline: ${formatDeadline(game.revealDeadline, now)}`);
+    console.log(`   Revealed: player 1 ${game.revealed[0] ? '✅' : '⏳'}  player 2 ${game.revealed[1] ? '✅' : '⏳'}`);
+  }
+  if (game.status === GameStatus.TIE_RESOLUTION && game.tieChoices) {
+    console.log(`   Tie deadline:    ${formatDeadline(game.tieResolutionDeadline, now)}`);
+    console.log(`   Tie choices: player 1 ${TieChoice[game.tieChoices[0]]}  player 2 ${TieChoice[game.tieChoices[1]]}`);
+  }
+  const myIndex = [game.player1, game.player2].findIndex(p => p.toLowerCase() === me.toLowerCase());
+  if (game.status === GameStatus.REVEAL_PHASE && myIndex >= 0 && !game.revealed?.[myIndex] &&
+      recoverReveal(vault, game, me) === undefined) {
+    console.log(`   ⚠️  No secret for your commitment in ${vault.path}; reveal is impossible from this machine`);
+  }
+  console.log(`\n👉 Next:`);
+  for (const action of nextActions(game, me, now)) console.log(`   ${describeAction(action, gameId, now)}`);
+  return game;
+}
+
+function printTx(label: string, tx: TxResult) {
+  console.log(`   ✅ ${label} TX: ${tx.hash} (block ${tx.blockNumber}, gas ${tx.gasUsed})`);
+}
+
+async function main() {
+  const cli = parseArgs(process.argv.slice(2));
+  if (!cli.command || cli.flags.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (!COMMANDS.includes(cli.command)) throw new Error(`Unknown command "${cli.command}"\n\n${USAGE}`);
+  // Checked before connecting, so a typo fails fast
+  const margin = parseSeconds(cli, 'margin');
+  const poll = parseSeconds(cli, 'poll');
+
+  const env = loadEnv(typeof cli.flags.env === 'string' ? cli.flags.env : undefined);
+  if (!env.contractAddress) throw new Error('CONTRACT_ADDRESS must be set in .env to play');
+  if (!env.vaultPassphrase) throw new Error('VAULT_PASSPHRASE must be set in .env so commitment secrets survive until reveal');
+  const wallet = typeof cli.flags.wallet === 'string' ? cli.flags.wallet : '1';
+  if (!/^[1-9]\d*$/.test(wallet)) throw new Error(`--wallet must be a player number starting at 1, got "${wallet}"`);
+
+  await verifyEnvironment(env, { requireContract: true });
+
+  const clients = await makeClients(env, Number(wallet) - 1);
+  const { abi } = await getDeployedContract(env.contractAddress);
+  const adapter = makeViemAdapter([clients], env.contractAddress, abi);
+  const client = makeRpsClient(adapter, clients.account.address);
+  const vault = await openVault(env.vaultPassphrase, env.vaultPath);
+  const chainId = await adapter.chainId();
+  console.log(`👤 ${client.player} on chain ${chainId}, contract ${client.address}`);
+
+  switch (cli.command) {
+    case 'create': {
+      const move = parseMove(cli.flags.move);
+      const secret = makeCommit(move);
+      const commitment = commitmentOf(secret);
+      // Vault first: a crash after the tx must not lose the salt/nonce
+      await vault.save({ chainId, contract: client.address, player: client.player, ...secret, commitment });
+      const tx = await client.createGame(commitment);
+      await vault.assignGameId(commitment, tx.gameId);
+      printTx(`createGame with ${Move[move]}`, tx);
+      await printStatus(client, adapter, vault, tx.gameId);
+      break;
+    }
+
+    case 'join': {
+      const gameId = parseGameId(cli);
+      const move = parseMove(cli.flags.move);
+      const game = await client.getGame(gameId);
+      if (game.player1 === ZERO_ADDRESS) throw new Error(`Game ${gameId} does not exist`);
+      const secret = makeCommit(move);
+      const commitment = commitmentOf(secret);
+      await vault.save({ chainId, contract: client.address, gameId, player: client.player, ...secret, commitment });
+      printTx(`joinGame with ${Move[move]}`, await client.joinGame(gameId, commitment, game.stake));
+      await printStatus(client, adapter, vault, gameId);
+      break;
+    }
+
+    case 'reveal': {
+      const gameId = parseGameId(cli);
+      const game: GameView = await client.getGame(gameId);
+      if (game.player1 === ZERO_ADDRESS) throw new Error(`Game ${gameId} does not exist`);
+      const secret = recoverReveal(vault, game, client.player);
+      if (!secret) throw new Error(`No secret in ${vault.path} matches your commitment for game ${gameId}`);
+      const tx = await client.reveal(gameId, secret.move, secret.salt, secret.nonce);
+      printTx(`reveal ${Move[secret.move]}`, tx);
+      if (tx.resolved) {
+        const tie = tx.resolved.winner === ZERO_ADDRESS;
+        console.log(`   🏁 ${Move[tx.resolved.move1]} vs ${Move[tx.resolved.move2]}: ${tie ? 'tie' : `winner ${tx.resolved.winner}`}`);
+      }
+      await printStatus(client, adapter, vault, gameId);
+      break;
+    }
+
+    case 'tie': {
+      const gameId = parseGameId(cli);
+      const choice = cli.positionals[1]?.toUpperCase();
+      if (choice !== 'REMATCH' && choice !== 'SPLIT') throw new Error('tie needs a choice: yarn rps tie <id> rematch|split');
+      const tx = await client.handleTie(gameId, TieChoice[choice]);
+      printTx(`handleTie ${choice}`, tx);
+      if (tx.tieHandled) console.log(`   🤝 Both chose: ${tx.tieHandled.isRematch ? 'rematch' : 'split'}`);
+      await printStatus(client, adapter, vault, gameId);
+      break;
+    }
+
+    case 'cancel': {
+      const gameId = parseGameId(cli);
+      printTx('cancelGame', await client.cancelGame(gameId));
+      await printStatus(client, adapter, vault, gameId);
+      break;
+    }
+
+    case 'claim': {
+      const gameId = parseGameId(cli);
+      const tx = await client.claimAfterRevealTimeout(gameId);
+      printTx('claimAfterRevealTimeout', tx);
+      if (tx.resolved) console.log(`   🏁 ${tx.resolved.winner === ZERO_ADDRESS ? 'nobody revealed, pot split' : `winner ${tx.resolved.winner}`}`);
+      await printStatus(client, adapter, vault, gameId);
+      break;
+    }
+
+    case 'status':
+      await printStatus(client, adapter, vault, parseGameId(cli));
+      break;
+
+    case 'list': {
+      if (!env.isLocal && env.deploymentBlock === undefined) {
+        throw new Error('DEPLOYMENT_BLOCK must be set in .env to list games on Sepolia');
+      }
+      const indexer = await openIndexer(adapter, { fromBlock: env.deploymentBlock ?? 0n, confirmations: env.confirmations });
+      await indexer.sync();
+      const open = cli.flags.open === true;
+      const games = open ? indexer.openGames() : indexer.gamesByPlayer(client.player);
+      console.log(`\n${open ? '🟢 Open games' : '📋 Your games'}: ${games.length}`);
+      const now = await adapter.now();
+      for (const g of games) {
+        // The index cannot see the silent tie auto-split; getGame is authoritative
+        const game = await client.getGame(g.gameId);
+        const next = nextActions(game, client.player, now)[0];
+        console.log(`   #${g.gameId}  ${GameStatus[game.status].padEnd(14)} ${describeAction(next, g.gameId, now)}`);
+      }
+      break;
+    }
+
+    case 'agent': {
+      const agent = createAutoRevealAgent(adapter, { vault, account: client.player, safetyMarginSec: margin === undefined ? undefined : BigInt(margin) });
+      const controller = new AbortController();
+      const stop = () => {
+        console.log('\n🛑 Stopping agent...');
+        controller.abort();
+      };
+      process.once('SIGINT', stop);
+      process.once('SIGTERM', stop);
+      console.log(`\n🤖 Auto-reveal agent watching GameJoined for games created by ${client.player} (Ctrl+C to stop)`);
+      await agent.run({ signal: controller.signal, pollMs: poll === undefined ? undefined : poll * 1000 });
+      break;
+    }
+  }
+}
+
+main().catch((e) => {
+  console.error(`❌ ${e?.shortMessage ?? e?.message ?? e}`);
+  process.exit(1);
+});
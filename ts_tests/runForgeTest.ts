@@ -1,67 +1,215 @@
 import { spawn } from 'child_process';
-import fs from 'fs/promises';
-import path from 'path';
+import { startLogging, stopLogging, recordScenario, attachToRun, ScenarioReport } from './reportLogger.js';
+import { argValue } from './client/args.js';
 
-async function main() {
-  const reportsDir = path.join(process.cwd(), 'reports');
-  try {
-    await fs.mkdir(reportsDir, { recursive: true });
-  } catch {}
+/*
+ * Runs `forge test --json` and feeds every Solidity test into the same run record as the TS runners:
+ * suite = test contract, scenario = test function, with gas, duration and revert reason.
+ * Usage: yarn test:sol [--verbose | -v…] [--match-test <regex>] [--match-contract <regex>] [--fuzz-runs <n>]
+ * --verbose is forge's -vvv; with either, the traces forge includes for failing tests are kept in the run record.
+ */
 
-  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
-  const fileName = `forge_test_${timestamp}.log`;
-  const filePath = path.join(reportsDir, fileName);
+type ForgeDuration = string | number | { secs: number; nanos: number } | null | undefined;
 
-  const verbose = process.argv.includes('-vvv') || process.argv.includes('--verbose');
-  const forgeArgs = verbose ? ['test', '-vvv'] : ['test'];
+type ForgeTestResult = {
+  status: 'Success' | 'Failure' | 'Skipped' | string;
+  reason?: string | null;
+  counterexample?: unknown;
+  decoded_logs?: string[];
+  /** Call traces, present at -vvv and above */
+  traces?: unknown;
+  kind?: {
+    Unit?: { gas: number };
+    Fuzz?: { runs: number; mean_gas: number; median_gas: number };
+    Invariant?: { runs: number; calls: number; reverts: number };
+  };
+  duration?: ForgeDuration;
+};
 
-  console.log(`📄 Logging to: ${filePath}`);
-  console.log(`\n${'='.repeat(80)}`);
-  console.log(`Running: forge ${forgeArgs.join(' ')}`);
-  console.log(`${'='.repeat(80)}\n`);
+type ForgeSuiteResult = {
+  duration?: ForgeDuration;
+  test_results: Record<string, ForgeTestResult>;
+  warnings?: string[];
+};
 
-  const logFile = await fs.open(filePath, 'w');
-  const header = `\n${'='.repeat(80)}\nTest Run: forge test\nStarted: ${new Date().toISOString()}\n${'='.repeat(80)}\n\n`;
-  await logFile.write(header);
+export type ForgeTest = {
+  suite: string;
+  file: string;
+  name: string;
+  status: 'passed' | 'failed' | 'skipped';
+  kind: 'unit' | 'fuzz' | 'invariant' | 'unknown';
+  /** Unit: gas used; fuzz: mean gas */
+  gas?: bigint;
+  runs?: number;
+  reason?: string;
+  durationMs: number;
+  /** Failing tests only: console.log output and forge's traces */
+  logs?: string[];
+  traces?: unknown;
+};
 
-  const forge = spawn('forge', forgeArgs, {
-    shell: true,
-    stdio: ['inherit', 'pipe', 'pipe']
-  });
+const PASSTHROUGH = ['match-test', 'match-contract', 'fuzz-runs'];
 
-  let stdout = '';
-  let stderr = '';
+// forge has printed durations as {secs, nanos}, plain numbers and "1ms 234µs 567ns" strings across versions
+function durationMs(d: ForgeDuration): number {
+  if (d === null || d === undefined) return 0;
+  if (typeof d === 'number') return d;
+  if (typeof d === 'object') return d.secs * 1000 + d.nanos / 1e6;
+  const units: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1000, ms: 1, 'µs': 1e-3, us: 1e-3, ns: 1e-6 };
+  let total = 0;
+  for (const [, value, unit] of d.matchAll(/([\d.]+)\s*(ms|µs|us|ns|h|m|s)/g)) total += Number(value) * units[unit];
+  return total;
+}
 
-  forge.stdout?.on('data', (data: Buffer) => {
-    const text = data.toString();
-    process.stdout.write(text);
-    stdout += text;
-    logFile.write(text).catch(() => {});
-  });
+function toForgeTest(suiteId: string, name: string, r: ForgeTestResult): ForgeTest {
+  const [file, suite] = suiteId.includes(':') ? [suiteId.slice(0, suiteId.lastIndexOf(':')), suiteId.slice(suiteId.lastIndexOf(':') + 1)] : ['', suiteId];
+  const status = r.status === 'Success' ? 'passed' : r.status === 'Skipped' ? 'skipped' : 'failed';
+  const test: ForgeTest = { suite, file, name, status, kind: 'unknown', durationMs: durationMs(r.duration) };
+  if (r.kind?.Unit) {
+    test.kind = 'unit';
+    test.gas = BigInt(r.kind.Unit.gas);
+  } else if (r.kind?.Fuzz) {
+    test.kind = 'fuzz';
+    test.gas = BigInt(r.kind.Fuzz.mean_gas);
+    test.runs = r.kind.Fuzz.runs;
+  } else if (r.kind?.Invariant) {
+    test.kind = 'invariant';
+    test.runs = r.kind.Invariant.runs;
+  }
+  if (status === 'failed') {
+    const counterexample = r.counterexample ? ` (counterexample: ${JSON.stringify(r.counterexample)})` : '';
+    test.reason = `${r.reason || 'assertion failed'}${counterexample}`;
+    if (r.decoded_logs?.length) test.logs = r.decoded_logs;
+    if (r.traces) test.traces = r.traces;
+  }
+  return test;
+}
 
-  forge.stderr?.on('data', (data: Buffer) => {
-    const text = data.toString();
-    process.stderr.write(text);
-    stderr += text;
-    logFile.write(`[STDERR] ${text}`).catch(() => {});
-  });
+/** Parse `forge test --json` stdout; compiler chatter before the JSON object is ignored */
+export function parseForgeJson(stdout: string): ForgeTest[] {
+  const start = stdout.indexOf('{');
+  const end = stdout.lastIndexOf('}');
+  if (start < 0 || end < start) throw new Error('forge produced no JSON output (compilation failed?)');
+  const suites = JSON.parse(stdout.slice(start, end + 1)) as Record<string, ForgeSuiteResult>;
+  const tests: ForgeTest[] = [];
+  for (const [suiteId, suite] of Object.entries(suites)) {
+    for (const [name, result] of Object.entries(suite.test_results ?? {})) tests.push(toForgeTest(suiteId, name, result));
+  }
+  return tests;
+}
 
-  forge.on('close', async (code) => {
-    const footer = `\n${'='.repeat(80)}\nFinished: ${new Date().toISOString()}\nExit Code: ${code}\n${'='.repeat(80)}\n`;
-    await logFile.write(footer);
-    await logFile.close();
-    process.exit(code ?? 0);
+function toScenarioReport(t: ForgeTest, startedAt: string): ScenarioReport {
+  const stepName = t.kind === 'fuzz' ? `fuzz (${t.runs} runs, mean gas)` : t.kind === 'invariant' ? `invariant (${t.runs} runs)` : t.kind;
+  return {
+    suite: t.suite,
+    name: t.name,
+    status: t.status,
+    startedAt,
+    durationMs: Math.round(t.durationMs),
+    steps: [{ name: stepName, gasUsed: t.gas, durationMs: Math.round(t.durationMs), status: t.status === 'failed' ? 'failed' : 'passed' }],
+    assertions: [],
+    error: t.reason ? { message: t.reason } : undefined
+  };
+}
+
+function printSummary(tests: ForgeTest[], verbose: boolean) {
+  const suites = [...new Set(tests.map(t => t.suite))];
+  const rows = suites.map(suite => {
+    const ts = tests.filter(t => t.suite === suite);
+    return [
+      suite,
+      String(ts.filter(t => t.status === 'passed').length),
+      String(ts.filter(t => t.status === 'failed').length),
+      String(ts.filter(t => t.status === 'skipped').length),
+      `${ts.reduce((sum, t) => sum + t.durationMs, 0).toFixed(1)}ms`
+    ];
   });
+  const header = ['Suite', 'Passed', 'Failed', 'Skipped', 'Time'];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+  const line = (cells: string[]) => cells.map((c, i) => (i === 0 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join('  ');
+
+  console.log(`\n📊 Solidity test summary`);
+  console.log(line(header));
+  console.log(widths.map(w => '-'.repeat(w)).join('  '));
+  for (const r of rows) console.log(line(r));
+
+  if (verbose) {
+    for (const t of tests) {
+      const icon = t.status === 'passed' ? '✅' : t.status === 'skipped' ? '⏭️ ' : '❌';
+      const gas = t.gas !== undefined ? ` gas=${t.gas}${t.kind === 'fuzz' ? ` (mean, ${t.runs} runs)` : ''}` : '';
+      console.log(`${icon} ${t.suite}::${t.name}${gas}`);
+    }
+  }
 
-  forge.on('error', async (err) => {
-    await logFile.write(`[ERROR] ${err.message}\n`).catch(() => {});
-    await logFile.close();
-    process.exit(1);
+  const failed = tests.filter(t => t.status === 'failed');
+  if (failed.length > 0) {
+    console.log(`\n❌ ${failed.length} failing test(s):`);
+    for (const t of failed) {
+      console.log(`   ${t.suite}::${t.name}: ${t.reason}`);
+      for (const log of t.logs ?? []) console.log(`      ${log}`);
+    }
+  }
+  const passed = tests.filter(t => t.status === 'passed').length;
+  console.log(`\n${failed.length === 0 ? '✅' : '❌'} ${passed}/${tests.length} passed across ${suites.length} suite(s)`);
+}
+
+function runForge(args: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const forge = spawn('forge', args, { stdio: ['inherit', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    forge.stdout?.on('data', (data: Buffer) => { stdout += data.toString(); });
+    forge.stderr?.on('data', (data: Buffer) => {
+      // Compiler progress goes to stderr; show it live
+      const text = data.toString();
+      process.stderr.write(text);
+      stderr += text;
+    });
+    forge.on('close', (code) => resolve({ code: code ?? 1, stdout, stderr }));
+    forge.on('error', reject);
   });
 }
 
+async function main() {
+  await startLogging('forge_test', 'solidity');
+
+  // The last -v… wins, as in forge; --verbose is the -vvv the script used to run with
+  const verbosity = process.argv.filter(a => /^-v+$/.test(a)).pop() ?? (process.argv.includes('--verbose') ? '-vvv' : undefined);
+  const verbose = verbosity !== undefined;
+  const forgeArgs = ['test', '--json', ...(verbosity ? [verbosity] : [])];
+  for (const name of PASSTHROUGH) {
+    const value = argValue(process.argv, name);
+    if (value !== undefined) forgeArgs.push(`--${name}`, value);
+  }
+
+  console.log(`\n${'='.repeat(80)}`);
+  console.log(`Running: forge ${forgeArgs.join(' ')}`);
+  console.log(`${'='.repeat(80)}\n`);
+
+  const startedAt = new Date().toISOString();
+  const { code, stdout, stderr } = await runForge(forgeArgs);
+
+  let tests: ForgeTest[];
+  try {
+    tests = parseForgeJson(stdout);
+  } catch (e) {
+    if (stderr) console.log(stderr);
+    throw e;
+  }
+  for (const t of tests) recordScenario(toScenarioReport(t, startedAt));
+  const traced = tests.filter(t => t.traces !== undefined);
+  if (traced.length > 0) attachToRun('forgeTraces', Object.fromEntries(traced.map(t => [`${t.suite}::${t.name}`, t.traces])));
+  printSummary(tests, verbose);
+
+  // forge exits non-zero on failures; a failing test without a non-zero exit is still a failure
+  const failed = tests.some(t => t.status === 'failed');
+  if (code !== 0 && !failed) throw new Error(`forge test exited with code ${code}`);
+  await stopLogging();
+  process.exit(failed ? 1 : 0);
+}
+
 main().catch(async (e) => {
   console.error(e);
+  await stopLogging(e).catch(() => {});
   process.exit(1);
 });
-
@@ -0,0 +1,184 @@
+import { argValue, loadEnv, makePlayerClients, requirePlayers, verifyEnvironment, getDeployedContract, deployContract } from './client/utils.js';
+import { makeViemAdapter } from './client/viemAdapter.js';
+import { makeEthersAdapter } from './client/ethersAdapter.js';
+import { managedAnvil } from './client/anvil.js';
+import { makeRpsClient } from './client/rpsClient.js';
+import { ChainAdapter } from './client/chainAdapter.js';
+import { CommitmentVector, CommitmentVectors, assertCommitSecret, commitmentOf, ethersCommitmentOf } from './client/commitment.js';
+import { decodeRevert, formatRevert } from './client/rpsErrors.js';
+import { Hex } from 'viem';
+import { JsonRpcProvider, Wallet } from 'ethers';
+import { startLogging, stopLogging, setChainMetadata, beginScenario, endScenario, recordAssertion } from './reportLogger.js';
+import { zeroFeesOnAnvil, fundOnAnvil } from './testHarness.js';
+import vectorsJson from './fixtures/commitment-vectors.json' assert { type: 'json' };
+
+/*
+ * Commitment vectors: every entry of fixtures/commitment-vectors.json must hash to its recorded
+ * commitment through viem's encodePacked and ethers' solidityPacked, every rejected input must be
+ * refused by both, and (unless --offline) the deployed contract must accept each vector's reveal and
+ * answer InvalidCommitment for the same salt and nonce with another move.
+ */
+
+const { vectors, rejected } = vectorsJson as CommitmentVectors;
+
+type Check = { name: string; expected: string; actual: string };
+
+/** Record one vector (or rejected input) as a scenario; true when every check matched */
+function report(name: string, checks: Check[]): boolean {
+  beginScenario('commitments', name);
+  for (const c of checks) recordAssertion({ ...c, passed: c.actual === c.expected });
+  const failed = checks.filter(c => c.actual !== c.expected);
+  endScenario(failed.length === 0 ? 'passed' : 'failed', failed.length === 0 ? undefined : new Error(failed.map(c => `${c.name}: ${c.actual}`).join('; ')));
+  console.log(`   ${failed.length === 0 ? '✅' : '❌'} ${name}`);
+  for (const c of failed) console.log(`      ${c.name}: ${c.actual} (expected ${c.expected})`);
+  return failed.length === 0;
+}
+
+const thrown = (fn: () => unknown): string => {
+  try {
+    return `accepted (${fn()})`;
+  } catch {
+    return 'rejected';
+  }
+};
+
+function checkOffline(): number {
+  console.log(`\n🔑 ${vectors.length} vector(s) through viem and ethers`);
+  let failures = 0;
+  for (const v of vectors) {
+    const passed = report(v.name, [
+      { name: 'viem encodePacked', expected: v.commitment, actual: commitmentOf(v) },
+      { name: 'ethers solidityPacked', expected: v.commitment, actual: ethersCommitmentOf(v) }
+    ]);
+    if (!passed) failures++;
+  }
+  console.log(`\n🚫 ${rejected.length} input(s) that must be refused`);
+  for (const r of rejected) {
+    const passed = report(`refuses ${r.name}`, [
+      { name: 'assertCommitSecret', expected: 'rejected', actual: thrown(() => assertCommitSecret(r)) },
+      { name: 'viem encodePacked', expected: 'rejected', actual: thrown(() => commitmentOf(r)) },
+      { name: 'ethers solidityPacked', expected: 'rejected', actual: thrown(() => ethersCommitmentOf(r)) }
+    ]);
+    if (!passed) failures++;
+  }
+  return failures;
+}
+
+async function simulated(adapter: ChainAdapter, from: Hex, args: unknown[]): Promise<string> {
+  try {
+    await adapter.simulate(from, 'reveal', args);
+    return 'accepted';
+  } catch (err) {
+    const revert = decodeRevert(err);
+    return revert ? formatRevert(revert) : `undecoded error: ${err instanceof Error ? err.message.split('\n')[0] : String(err)}`;
+  }
+}
+
+/**
+ * Two vectors per game, never with the same move, so every game has a winner and pays out instead of
+ * leaving both stakes in TIE_RESOLUTION. A vector left without a partner plays against one that was
+ * already checked, which is only there to resolve the game.
+ */
+function pairUp(list: CommitmentVector[]): { pair: [CommitmentVector, CommitmentVector]; checked: [boolean, boolean] }[] {
+  const left = [...list];
+  const games: { pair: [CommitmentVector, CommitmentVector]; checked: [boolean, boolean] }[] = [];
+  while (left.length > 0) {
+    const first = left.shift()!;
+    const i = left.findIndex(v => v.move !== first.move);
+    if (i >= 0) {
+      games.push({ pair: [first, left.splice(i, 1)[0]], checked: [true, true] });
+      continue;
+    }
+    const partner = list.find(v => v.move !== first.move);
+    if (!partner) throw new Error('The on-chain check needs vectors with at least two different moves');
+    games.push({ pair: [first, partner], checked: [true, false] });
+  }
+  return games;
+}
+
+/**
+ * Vectors go on-chain two per game (see pairUp): player 1 commits one, player 2 the other. Both reveals
+ * are simulated with the vector's move and with a different one, then sent, which resolves the game
+ * and pays the winner.
+ */
+async function checkOnChain(adapter: ChainAdapter): Promise<number> {
+  const [a1, a2] = adapter.accounts;
+  const p1 = makeRpsClient(adapter, a1);
+  const p2 = makeRpsClient(adapter, a2);
+  console.log(`\n⛓️  ${vectors.length} vector(s) against reveal() on ${adapter.contract}`);
+  let failures = 0;
+  for (const { pair, checked } of pairUp(vectors)) {
+    const { gameId } = await p1.createGame(pair[0].commitment);
+    await p2.joinGame(gameId, pair[1].commitment);
+    const game = await p1.getGame(gameId);
+    for (const [slot, v] of pair.entries()) {
+      if (!checked[slot]) continue;
+      const from = slot === 0 ? a1 : a2;
+      const passed = report(`${v.name} on-chain`, [
+        { name: 'stored commitment', expected: v.commitment, actual: game.commitments?.[slot] ?? 'missing' },
+        { name: 'reveal', expected: 'accepted', actual: await simulated(adapter, from, [gameId, v.move, v.salt, v.nonce]) },
+        { name: 'reveal with another move', expected: 'InvalidCommitment()', actual: await simulated(adapter, from, [gameId, (v.move + 1) % 3, v.salt, v.nonce]) }
+      ]);
+      if (!passed) failures++;
+    }
+    await p1.reveal(gameId, pair[0].move, pair[0].salt, pair[0].nonce);
+    await p2.reveal(gameId, pair[1].move, pair[1].salt, pair[1].nonce);
+  }
+  return failures;
+}
+
+async function main() {
+  const offline = process.argv.includes('--offline');
+  const env = offline ? undefined : loadEnv(argValue(process.argv, 'env'));
+  const library = argValue(process.argv, 'library') ?? 'viem';
+  if (library !== 'viem' && library !== 'ethers') throw new Error(`Unknown --library "${library}" (expected viem or ethers)`);
+  await startLogging(`run_commitments_${library}`, env?.profile ?? 'offline');
+  console.log(`\n🧪 === Commitment Vectors ===`);
+
+  let failures = checkOffline();
+  if (env) {
+    const anvil = await managedAnvil(env, process.argv);
+    requirePlayers(env, 2, 'The commitment suite');
+    if (!env.isLocal && !env.contractAddress) {
+      throw new Error('CONTRACT_ADDRESS must be set in .env when running tests on Sepolia');
+    }
+    const { contractDeployed } = await verifyEnvironment(env);
+
+    const viemClients = (await makePlayerClients(env)).slice(0, 2);
+    const { publicClient, walletClient: wallet1, isLocal } = viemClients[0];
+    if (isLocal) {
+      // Force zero-fee locally, as in the scenario runners
+      await zeroFeesOnAnvil(publicClient);
+      await fundOnAnvil(publicClient, viemClients.map(c => c.account.address));
+    }
+
+    let address = contractDeployed ? env.contractAddress : undefined;
+    if (!address) address = await deployContract(wallet1, publicClient, isLocal);
+    const { abi } = await getDeployedContract(address as Hex);
+
+    let adapter: ChainAdapter;
+    if (library === 'viem') {
+      adapter = makeViemAdapter(viemClients, address, abi);
+    } else {
+      const provider = new JsonRpcProvider(env.rpcUrl, undefined, env.isLocal ? { cacheTimeout: -1 } : undefined);
+      const signers = env.playerKeys.slice(0, 2).map(pk => new Wallet(pk, provider));
+      adapter = await makeEthersAdapter(provider, signers, address, abi, isLocal, env.fees);
+    }
+    console.log(`📡 Network: ${env.chain.name} (--env ${env.profile})`);
+    console.log(`📍 Contract: ${address}`);
+    setChainMetadata({ chainId: await adapter.chainId(), contract: address, library: adapter.library, fromBlock: await adapter.blockNumber() });
+
+    failures += await checkOnChain(adapter);
+    await anvil?.stop();
+  }
+
+  if (failures > 0) throw new Error(`${failures} commitment check(s) failed`);
+  console.log(`\n🎉 All tests completed!\n`);
+  await stopLogging();
+}
+
+main().catch(async (e) => {
+  console.error(e);
+  await stopLogging(e).catch(() => {});
+  process.exit(1);
+});
@@ -0,0 +1,82 @@
+import { argValue, loadEnv, makePlayerClients, requirePlayers, verifyEnvironment, getDeployedContract, deployContract } from './client/utils.js';
+import { makeViemAdapter } from './client/viemAdapter.js';
+import { makeEthersAdapter } from './client/ethersAdapter.js';
+import { managedAnvil } from './client/anvil.js';
+import { Hex } from 'viem';
+import { JsonRpcProvider, Wallet } from 'ethers';
+import { startLogging, stopLogging, setChainMetadata } from './reportLogger.js';
+import { zeroFeesOnAnvil, fundOnAnvil } from './testHarness.js';
+import { makeScenarioContext, PLAYERS_PER_SCENARIO } from './scenarios/engine.js';
+import { runDifferential } from './scenarios/differential.js';
+import { selectScenarios, selectedSuite } from './scenarios/matrix.js';
+
+/*
+ * Differential mode: every scenario runs once through viem and once through ethers against the
+ * same contract, and the runs are diffed on gameIds, event sequence, gas used and balance deltas.
+ * On Anvil both runs start from the same evm_snapshot with seeded salts, so they must be identical.
+ */
+async function main() {
+  const envArg = argValue(process.argv, 'env');
+  const seed = argValue(process.argv, 'seed');
+
+  const env = loadEnv(envArg);
+  await startLogging('run_diff', env.profile);
+  const anvil = await managedAnvil(env, process.argv);
+  requirePlayers(env, PLAYERS_PER_SCENARIO, 'The differential suite');
+
+  if (!env.isLocal && !env.contractAddress) {
+    throw new Error('CONTRACT_ADDRESS must be set in .env when running tests on Sepolia');
+  }
+  const { contractDeployed } = await verifyEnvironment(env);
+
+  const viemClients = await makePlayerClients(env);
+  const { publicClient, walletClient: wallet1, isLocal } = viemClients[0];
+
+  if (isLocal) {
+    // Force zero-fee locally to make assertions exact
+    await zeroFeesOnAnvil(publicClient);
+    // Before deploying: mnemonic-derived players start with nothing
+    await fundOnAnvil(publicClient, viemClients.map(c => c.account.address));
+  }
+
+  // Get or deploy contract
+  let address = contractDeployed ? env.contractAddress : undefined;
+  if (!address) address = await deployContract(wallet1, publicClient, isLocal);
+  const { abi } = await getDeployedContract(address as Hex);
+
+  const viem = makeViemAdapter(viemClients, address, abi);
+  // Snapshots are reverted locally, so ethers' 250ms response cache could serve pre-revert balances
+  const provider = new JsonRpcProvider(env.rpcUrl, undefined, env.isLocal ? { cacheTimeout: -1 } : undefined);
+  const signers = env.playerKeys.map(pk => new Wallet(pk, provider));
+  const ethers = await makeEthersAdapter(provider, signers, address, abi, isLocal, env.fees);
+
+  console.log(`\n🧪 === Differential Suite (viem vs ethers) ===`);
+  console.log(`📡 Network: ${env.chain.name} (--env ${env.profile})`);
+  console.log(`📍 Contract: ${address}`);
+  for (const [i, account] of viem.accounts.entries()) console.log(`👤 Player ${i + 1}: ${account}`);
+
+  const scenarios = selectScenarios(process.argv);
+  console.log(`🧾 Running ${scenarios.length} scenario(s) on both libraries`);
+  const suite = selectedSuite(process.argv);
+  const left = await makeScenarioContext(viem, { suite });
+  const right = await makeScenarioContext(ethers, { suite });
+  setChainMetadata({ chainId: left.chainId, contract: address, library: 'viem+ethers', fromBlock: await viem.blockNumber() });
+  const results = await runDifferential([left, right], scenarios, seed);
+
+  const diverged = results.filter(r => r.differences.length > 0);
+  console.log(`\n📊 ${results.length - diverged.length}/${results.length} scenario(s) identical across viem and ethers`);
+  if (diverged.length > 0) {
+    for (const r of diverged) console.log(`   ❌ ${r.name}: ${r.differences.join('; ')}`);
+    throw new Error(`${diverged.length} scenario(s) diverged between viem and ethers`);
+  }
+
+  console.log(`\n🎉 All tests completed!\n`);
+  await stopLogging();
+  await anvil?.stop();
+}
+
+main().catch(async (e) => {
+  console.error(e);
+  await stopLogging(e).catch(() => {});
+  process.exit(1);
+});
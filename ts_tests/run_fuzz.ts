@@ -0,0 +1,98 @@
+import { argValue, loadEnv, makePlayerClients, requirePlayers, verifyEnvironment, getDeployedContract, deployContract } from './client/utils.js';
+import { makeViemAdapter } from './client/viemAdapter.js';
+import { managedAnvil } from './client/anvil.js';
+import { Hex } from 'viem';
+import { randomBytes } from 'crypto';
+import { startLogging, stopLogging, setChainMetadata } from './reportLogger.js';
+import { fundOnAnvil } from './testHarness.js';
+import { FuzzContext, generateTrace, loadFixtures, runTraceReported, saveFixture, shrinkTrace } from './scenarios/fuzz.js';
+
+/*
+ * Model-based fuzzing: random sequences of create/join/reveal/handleTie/cancel/claim calls and time
+ * warps, from several players across several games, run against a fresh contract on Anvil. After every
+ * step the events, getGame and all balances must match the offline model. A failing sequence is shrunk
+ * to a minimal trace and saved under ts_tests/fixtures/fuzz, where `--replay` runs it again.
+ */
+
+const FIXTURE_DIR = 'ts_tests/fixtures/fuzz';
+
+async function main() {
+  const env = loadEnv(argValue(process.argv, 'env'));
+  const steps = Number(argValue(process.argv, 'steps') ?? 60);
+  const runs = Number(argValue(process.argv, 'runs') ?? 1);
+  const replay = argValue(process.argv, 'replay');
+  const verbose = process.argv.includes('--verbose');
+  await startLogging('run_fuzz', env.profile);
+  const anvil = await managedAnvil(env, process.argv);
+  requirePlayers(env, 2, 'The fuzzer');
+  if (!env.isLocal) throw new Error('The fuzzer pins block timestamps and reverts snapshots, so it only runs on Anvil (--env anvil)');
+  await verifyEnvironment(env);
+
+  const viemClients = (await makePlayerClients(env)).slice(0, 3);
+  const { publicClient, walletClient: wallet1 } = viemClients[0];
+  await fundOnAnvil(publicClient, viemClients.map(c => c.account.address));
+
+  // Always a fresh contract: traces number their games from 1
+  const address = await deployContract(wallet1, publicClient, true);
+  const { abi } = await getDeployedContract(address as Hex);
+  const adapter = makeViemAdapter(viemClients, address, abi);
+  let snapshot = await adapter.snapshot();
+  const ctx: FuzzContext = {
+    adapter,
+    async reset() {
+      // evm_revert consumes the snapshot, so take a fresh one of the same clean state
+      await adapter.revert(snapshot);
+      snapshot = await adapter.snapshot();
+    }
+  };
+
+  console.log(`\n🎲 === Fuzzer (${adapter.library}) ===`);
+  console.log(`📡 Network: ${env.chain.name} (--env ${env.profile})`);
+  console.log(`📍 Contract: ${address}`);
+  adapter.accounts.forEach((a, i) => console.log(`👤 Player ${i + 1}: ${a}`));
+  setChainMetadata({ chainId: await adapter.chainId(), contract: address, library: adapter.library, fromBlock: await adapter.blockNumber() });
+
+  let failures = 0;
+  if (replay) {
+    const fixtures = await loadFixtures(replay);
+    if (fixtures.length === 0) throw new Error(`No fuzz fixtures found at ${replay}; nothing was replayed`);
+    console.log(`\n🔁 Replaying ${fixtures.length} fixture(s) from ${replay}`);
+    for (const { file, fixture } of fixtures) {
+      console.log(`\n🧪 ${file} (${fixture.actions.length} step(s), seed ${fixture.seed})`);
+      if (fixture.failure) console.log(`   recorded: step ${fixture.failure.step} ${fixture.failure.check}: ${fixture.failure.message}`);
+      const failure = await runTraceReported(ctx, file, fixture, true);
+      console.log(failure ? `   ❌ step ${failure.step} ${failure.check}: ${failure.message}` : '   ✅ Matches the model');
+      if (failure) failures++;
+    }
+  } else {
+    const baseSeed = argValue(process.argv, 'seed') ?? randomBytes(4).toString('hex');
+    for (let i = 0; i < runs; i++) {
+      const seed = runs === 1 ? baseSeed : `${baseSeed}-${i}`;
+      const trace = generateTrace(seed, steps, adapter.accounts.length);
+      console.log(`\n🧪 Seed ${seed}: ${steps} step(s), ${trace.players} player(s)`);
+      const failure = await runTraceReported(ctx, `seed ${seed}`, trace, verbose);
+      if (!failure) {
+        console.log('   ✅ Matches the model');
+        continue;
+      }
+      failures++;
+      console.log(`   ❌ step ${failure.step} ${failure.check}: ${failure.message}`);
+      console.log('   🔬 Shrinking...');
+      const shrunk = await shrinkTrace(ctx, trace, failure);
+      const file = await saveFixture(FIXTURE_DIR, shrunk.trace, shrunk.failure);
+      console.log(`   📦 ${shrunk.trace.actions.length} step(s) after ${shrunk.runs} re-run(s): ${shrunk.failure.message}`);
+      console.log(`   💾 Saved ${file}; replay with: yarn fuzz:replay --replay ${file}`);
+    }
+  }
+
+  if (failures > 0) throw new Error(`${failures} fuzz trace(s) diverged from the model`);
+  console.log(`\n🎉 All tests completed!\n`);
+  await stopLogging();
+  await anvil?.stop();
+}
+
+main().catch(async (e) => {
+  console.error(e);
+  await stopLogging(e).catch(() => {});
+  process.exit(1);
+});
@@ -0,0 +1,72 @@
+import { argValue, loadEnv, makeClients, verifyEnvironment, getDeployedContract } from './client/utils.js';
+import { makeViemAdapter } from './client/viemAdapter.js';
+import { openIndexer, IndexedGame } from './client/indexer.js';
+import { GameStatus } from './client/gameView.js';
+import { Hex } from 'viem';
+
+/*
+ * Sync the local event index for CONTRACT_ADDRESS and query it.
+ * Usage: yarn index:sepolia [--player <address>] [--open] [--game <id>] [--chunk <blocks>] [--confirmations <n>]
+ * Scans start at DEPLOYMENT_BLOCK (required on Sepolia) and resume from the cursor in .rps/.
+ */
+
+function printGame(g: IndexedGame) {
+  const p2 = g.player2 ?? '-';
+  console.log(`   #${g.gameId}  ${GameStatus[g.status].padEnd(14)} p1=${g.player1} p2=${p2} blocks ${g.createdBlock}..${g.updatedBlock}`);
+}
+
+async function main() {
+  const env = loadEnv(argValue(process.argv, 'env'));
+  if (!env.contractAddress) throw new Error('CONTRACT_ADDRESS must be set in .env to index a deployment');
+  if (!env.isLocal && env.deploymentBlock === undefined) {
+    throw new Error('DEPLOYMENT_BLOCK must be set in .env on Sepolia; scanning from genesis is rejected by most RPC providers');
+  }
+  await verifyEnvironment(env, { requireContract: true });
+
+  const clients = await makeClients(env, false);
+  const { abi } = await getDeployedContract(env.contractAddress);
+  const adapter = makeViemAdapter([clients], env.contractAddress, abi);
+
+  const chunk = argValue(process.argv, 'chunk');
+  const confirmations = argValue(process.argv, 'confirmations');
+  const indexer = await openIndexer(adapter, {
+    fromBlock: env.deploymentBlock ?? 0n,
+    chunkSize: chunk ? BigInt(chunk) : undefined,
+    confirmations: confirmations ? BigInt(confirmations) : env.confirmations
+  });
+
+  console.log(`\n🗂️  Indexing ${adapter.contract} (store: ${indexer.path})`);
+  const sync = await indexer.sync((toBlock, head) => console.log(`   … block ${toBlock}/${head}`));
+  if (sync.requests === 0) console.log(`   ✅ Already up to date at block ${indexer.cursor()}`);
+  else console.log(`   ✅ Blocks ${sync.fromBlock}..${sync.toBlock}: ${sync.events} event(s) in ${sync.requests} request(s)`);
+
+  const player = argValue(process.argv, 'player') as Hex | undefined;
+  const gameId = argValue(process.argv, 'game');
+  if (gameId !== undefined) {
+    const game = indexer.game(BigInt(gameId));
+    if (!game) throw new Error(`Game ${gameId} is not in the index`);
+    console.log(`\n📜 Timeline of game ${gameId}`);
+    printGame(game);
+    for (const e of indexer.timeline(game.gameId)) {
+      const args = Object.entries(e.args).filter(([k]) => k !== 'gameId').map(([k, v]) => `${k}=${v}`).join(' ');
+      console.log(`   block ${e.blockNumber}  ${e.eventName.padEnd(13)} ${args}  (${e.transactionHash})`);
+    }
+  } else if (player) {
+    const games = indexer.gamesByPlayer(player);
+    console.log(`\n👤 ${games.length} game(s) for ${player}`);
+    games.forEach(printGame);
+  } else if (process.argv.includes('--open')) {
+    const games = indexer.openGames();
+    console.log(`\n🟢 ${games.length} open game(s) waiting for a second player`);
+    games.forEach(printGame);
+  } else {
+    const games = indexer.games();
+    console.log(`\n📊 ${games.length} game(s) indexed`);
+    games.forEach(printGame);
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,55 @@
+import { argValue, loadEnv, makeClients, verifyEnvironment, getDeployedContract } from './client/utils.js';
+import { makeViemAdapter } from './client/viemAdapter.js';
+import { openIndexer } from './client/indexer.js';
+import { createKeeper } from './client/keeper.js';
+import { GameStatus } from './client/gameView.js';
+
+/*
+ * Keeper daemon: finalizes expired REVEAL_PHASE and TIE_RESOLUTION games on CONTRACT_ADDRESS,
+ * paying gas from PRIVATE_KEY. Stops cleanly on Ctrl+C / SIGTERM; state survives restarts.
+ * Usage: yarn keeper:sepolia [--once] [--poll <seconds>]
+ */
+
+async function main() {
+  const env = loadEnv(argValue(process.argv, 'env'));
+  if (!env.contractAddress) throw new Error('CONTRACT_ADDRESS must be set in .env for the keeper');
+  if (!env.isLocal && env.deploymentBlock === undefined) {
+    throw new Error('DEPLOYMENT_BLOCK must be set in .env on Sepolia so the keeper can discover games');
+  }
+  await verifyEnvironment(env, { requireContract: true });
+
+  const clients = await makeClients(env, false);
+  const { abi } = await getDeployedContract(env.contractAddress);
+  const adapter = makeViemAdapter([clients], env.contractAddress, abi);
+  const indexer = await openIndexer(adapter, { fromBlock: env.deploymentBlock ?? 0n, confirmations: env.confirmations });
+  const keeper = await createKeeper(adapter, { indexer });
+
+  console.log(`\n🤖 Keeper for ${adapter.contract} (chain ${await adapter.chainId()})`);
+  console.log(`👤 Paying gas from ${adapter.accounts[0]}`);
+  console.log(`💾 State: ${keeper.path}`);
+  for (const t of keeper.tracked()) {
+    console.log(`   Resuming game ${t.gameId} (${GameStatus[t.status]}, deadline ${t.deadline})`);
+  }
+
+  if (process.argv.includes('--once')) {
+    const result = await keeper.tick();
+    console.log(`\n📊 Finalized ${result.finalized.length}, failed ${result.failed.length}, watching ${result.tracked.length}`);
+    if (result.failed.length > 0) process.exitCode = 1;
+    return;
+  }
+
+  const controller = new AbortController();
+  const stop = () => {
+    console.log('\n🛑 Stopping keeper...');
+    controller.abort();
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+  const poll = argValue(process.argv, 'poll');
+  await keeper.run({ signal: controller.signal, pollMs: poll ? Number(poll) * 1000 : undefined });
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
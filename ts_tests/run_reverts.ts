@@ -0,0 +1,91 @@
+import { argValue, loadEnv, makeClients, makePlayerClients, requirePlayers, verifyEnvironment, getDeployedContract, deployContract } from './client/utils.js';
+import { makeViemAdapter } from './client/viemAdapter.js';
+import { makeEthersAdapter } from './client/ethersAdapter.js';
+import { managedAnvil } from './client/anvil.js';
+import { makeRpsClient } from './client/rpsClient.js';
+import { ChainAdapter } from './client/chainAdapter.js';
+import { Hex } from 'viem';
+import { generatePrivateKey } from 'viem/accounts';
+import { JsonRpcProvider, Wallet } from 'ethers';
+import { startLogging, stopLogging, setChainMetadata } from './reportLogger.js';
+import { zeroFeesOnAnvil, fundOnAnvil } from './testHarness.js';
+import { runRevertSuite, REVERT_CASES } from './scenarios/reverts.js';
+
+/*
+ * Negative paths: every guarded branch of RockPaperScissors is called against a real node and must
+ * revert with exactly the custom error the Forge unit tests expect. The calls are eth_call simulations,
+ * so on Sepolia only the fixture games cost gas. `--library ethers` decodes through the ethers adapter.
+ * The rematch case leaves player 2's stake in the contract, so off a local node it needs `--lock-stake`.
+ */
+
+async function main() {
+  const env = loadEnv(argValue(process.argv, 'env'));
+  const library = argValue(process.argv, 'library') ?? 'viem';
+  if (library !== 'viem' && library !== 'ethers') throw new Error(`Unknown --library "${library}" (expected viem or ethers)`);
+  await startLogging(`run_reverts_${library}`, env.profile);
+  const anvil = await managedAnvil(env, process.argv);
+  requirePlayers(env, 2, 'The revert suite');
+
+  if (!env.isLocal && !env.contractAddress) {
+    throw new Error('CONTRACT_ADDRESS must be set in .env when running tests on Sepolia');
+  }
+  const { contractDeployed } = await verifyEnvironment(env);
+
+  const viemClients = await makePlayerClients(env);
+  const { publicClient, walletClient: wallet1, isLocal } = viemClients[0];
+  // A third configured player, else a fresh key; it only ever simulates, so it needs no ETH
+  const outsiderKey = env.playerKeys[2] ?? generatePrivateKey();
+
+  if (isLocal) {
+    // Force zero-fee locally, as in the scenario runners
+    await zeroFeesOnAnvil(publicClient);
+    await fundOnAnvil(publicClient, viemClients.slice(0, 2).map(c => c.account.address));
+  }
+
+  let address = contractDeployed ? env.contractAddress : undefined;
+  if (!address) address = await deployContract(wallet1, publicClient, isLocal);
+  const { abi } = await getDeployedContract(address as Hex);
+
+  let adapter: ChainAdapter;
+  if (library === 'viem') {
+    const outsider = await makeClients({ ...env, playerKeys: [outsiderKey] });
+    adapter = makeViemAdapter([...viemClients.slice(0, 2), outsider], address, abi);
+  } else {
+    const provider = new JsonRpcProvider(env.rpcUrl, undefined, env.isLocal ? { cacheTimeout: -1 } : undefined);
+    const signers = [...env.playerKeys.slice(0, 2), outsiderKey].map(pk => new Wallet(pk, provider));
+    adapter = await makeEthersAdapter(provider, signers, address, abi, isLocal, env.fees);
+  }
+  const [a1, a2, outsider] = adapter.accounts;
+
+  console.log(`\n🧪 === Revert Suite (${adapter.library}) ===`);
+  console.log(`📡 Network: ${env.chain.name} (--env ${env.profile})`);
+  console.log(`📍 Contract: ${address}`);
+  console.log(`👤 Player 1: ${a1}`);
+  console.log(`👤 Player 2: ${a2}`);
+  console.log(`👤 Outsider: ${outsider}`);
+  setChainMetadata({ chainId: await adapter.chainId(), contract: address, library: adapter.library, fromBlock: await adapter.blockNumber() });
+
+  const results = await runRevertSuite({
+    adapter,
+    players: { player1: makeRpsClient(adapter, a1), player2: makeRpsClient(adapter, a2) },
+    outsider,
+    lockStake: process.argv.includes('--lock-stake') || undefined
+  }, REVERT_CASES);
+
+  const failed = results.filter(r => !r.passed);
+  console.log(`\n📊 ${results.length - failed.length}/${results.length} guarded branch(es) reverted as expected`);
+  if (failed.length > 0) {
+    for (const r of failed) console.log(`   ❌ ${r.name}: ${r.actual} (expected ${r.expected})`);
+    throw new Error(`${failed.length} revert check(s) failed`);
+  }
+
+  console.log(`\n🎉 All tests completed!\n`);
+  await stopLogging();
+  await anvil?.stop();
+}
+
+main().catch(async (e) => {
+  console.error(e);
+  await stopLogging(e).catch(() => {});
+  process.exit(1);
+});
@@ -0,0 +1,127 @@
+import { keccak256, toHex, concat } from 'viem';
+import { runScenario, playersFor, ScenarioContext, ScenarioResult, Commit } from './engine.js';
+import { Scenario, Player } from './matrix.js';
+import { GameStatus } from '../client/gameView.js';
+import { formatEvent } from '../client/chainAdapter.js';
+import { beginScenario, endScenario, recordAssertion } from '../reportLogger.js';
+
+type Hex = `0x${string}`;
+
+/** The parts of a scenario run that must match across libraries */
+export type Fingerprint = {
+  gameId: bigint;
+  status: GameStatus;
+  steps: { step: string; player: Player; gasUsed: bigint; events: string[] }[];
+  /** Balance deltas with each player's own gas added back, so live-network fees do not cause noise */
+  netDeltas: Record<Player, bigint>;
+  contractDelta: bigint;
+};
+
+export type DiffResult = {
+  name: string;
+  libraries: [string, string];
+  fingerprints: [Fingerprint, Fingerprint];
+  /** Empty when both runs agree */
+  differences: string[];
+};
+
+export function fingerprint(result: ScenarioResult): Fingerprint {
+  const netDeltas = { ...result.deltas };
+  for (const s of result.steps) netDeltas[s.player] += s.fee;
+  return {
+    gameId: result.gameId,
+    status: result.status,
+    steps: result.steps.map(s => ({ step: s.step, player: s.player, gasUsed: s.gasUsed, events: s.events.map(formatEvent) })),
+    netDeltas,
+    contractDelta: result.contractDelta
+  };
+}
+
+/**
+ * Compare two fingerprints. gameIds only match when both runs started from the same chain state
+ * (evm_snapshot/evm_revert on Anvil), so they are skipped on live networks, and so is gasUsed:
+ * every call after createGame carries the gameId, whose zero and non-zero calldata bytes cost differently.
+ */
+export function diffFingerprints(a: Fingerprint, b: Fingerprint, compareGameIds: boolean): string[] {
+  const out: string[] = [];
+  if (compareGameIds && a.gameId !== b.gameId) out.push(`gameId ${a.gameId} vs ${b.gameId}`);
+  if (a.status !== b.status) out.push(`status ${GameStatus[a.status]} vs ${GameStatus[b.status]}`);
+  if (a.steps.length !== b.steps.length) out.push(`${a.steps.length} steps vs ${b.steps.length} steps`);
+
+  const n = Math.min(a.steps.length, b.steps.length);
+  for (let i = 0; i < n; i++) {
+    const [x, y] = [a.steps[i], b.steps[i]];
+    const label = `step ${i + 1}`;
+    if (x.step !== y.step || x.player !== y.player) {
+      out.push(`${label}: ${x.step} (${x.player}) vs ${y.step} (${y.player})`);
+      continue;
+    }
+    if (compareGameIds && x.gasUsed !== y.gasUsed) out.push(`${label} ${x.step}: gasUsed ${x.gasUsed} vs ${y.gasUsed}`);
+    // Event args embed the gameId, so only compare them verbatim when gameIds are expected to match
+    const evA = compareGameIds ? x.events : x.events.map(e => e.replace(/gameId=\d+/, 'gameId=*'));
+    const evB = compareGameIds ? y.events : y.events.map(e => e.replace(/gameId=\d+/, 'gameId=*'));
+    if (evA.join('|') !== evB.join('|')) out.push(`${label} ${x.step}: events [${evA.join(', ')}] vs [${evB.join(', ')}]`);
+  }
+
+  for (const p of ['player1', 'player2'] as const) {
+    if (a.netDeltas[p] !== b.netDeltas[p]) out.push(`${p} net delta ${a.netDeltas[p]} vs ${b.netDeltas[p]} wei`);
+  }
+  if (a.contractDelta !== b.contractDelta) out.push(`contract delta ${a.contractDelta} vs ${b.contractDelta} wei`);
+  return out;
+}
+
+/**
+ * Deterministic salt/nonce source: the i-th call returns keccak256(seed, i, 'salt'|'nonce').
+ * Both libraries get a fresh generator with the same seed, so calldata (and calldata gas) is identical.
+ */
+export function makeSeededCommit(seed: string): (move: number) => Commit {
+  let i = 0;
+  return (move) => {
+    const n = toHex(i++, { size: 32 });
+    const salt = keccak256(concat([toHex(seed), n, toHex('salt')])) as Hex;
+    const nonce = keccak256(concat([toHex(seed), n, toHex('nonce')])) as Hex;
+    return { move, salt, nonce };
+  };
+}
+
+/**
+ * Run every scenario once per context and diff the runs step by step.
+ * On Anvil both runs start from the same evm_snapshot, so gameIds must match exactly.
+ */
+export async function runDifferential(
+  contexts: [ScenarioContext, ScenarioContext],
+  scenarios: Scenario[],
+  seed = 'rps-differential'
+): Promise<DiffResult[]> {
+  const [left, right] = contexts;
+  const libraries: [string, string] = [left.adapter.library, right.adapter.library];
+  const local = left.adapter.isLocal && right.adapter.isLocal;
+  const results: DiffResult[] = [];
+
+  for (const [i, scenario] of scenarios.entries()) {
+    const scenarioSeed = `${seed}:${scenario.name}`;
+    const snapshot = local ? await left.adapter.snapshot() : undefined;
+
+    console.log(`\n🔀 [${libraries[0]}] ${scenario.name}`);
+    const a = await runScenario({ ...left, players: playersFor(left.pool, i), suite: `${left.suite ?? 'scenarios'}:${libraries[0]}`, makeCommit: makeSeededCommit(scenarioSeed) }, scenario);
+    if (snapshot) await left.adapter.revert(snapshot);
+
+    console.log(`\n🔀 [${libraries[1]}] ${scenario.name}`);
+    const b = await runScenario({ ...right, players: playersFor(right.pool, i), suite: `${right.suite ?? 'scenarios'}:${libraries[1]}`, makeCommit: makeSeededCommit(scenarioSeed) }, scenario);
+
+    const fingerprints: [Fingerprint, Fingerprint] = [fingerprint(a), fingerprint(b)];
+    const differences = diffFingerprints(fingerprints[0], fingerprints[1], local);
+    results.push({ name: scenario.name, libraries, fingerprints, differences });
+
+    beginScenario('differential', scenario.name);
+    recordAssertion({ name: `${libraries[0]} == ${libraries[1]}`, passed: differences.length === 0, expected: 'no divergence', actual: differences.join('; ') || 'no divergence' });
+    endScenario(differences.length === 0 ? 'passed' : 'failed', differences.length === 0 ? undefined : new Error(differences.join('; ')));
+
+    if (differences.length === 0) {
+      console.log(`\n🟰 ${libraries[0]} and ${libraries[1]} agree (${a.steps.length} steps, gameId ${a.gameId}${local ? '' : ` / ${b.gameId}`})`);
+    } else {
+      for (const d of differences) console.log(`   ❌ Divergence: ${d}`);
+    }
+  }
+  return results;
+}
@@ -0,0 +1,339 @@
+import { formatEther } from 'viem';
+import { makeCommit } from '../client/utils.js';
+import { RpsClient, TxResult, FIXED_STAKE, GameResolvedEvent, makeRpsClient } from '../client/rpsClient.js';
+import { ChainAdapter, advancePast, formatEvent } from '../client/chainAdapter.js';
+import { createLedger, needsStatusAfter, txFee } from '../client/ledger.js';
+import { GameStatus, TieChoice, ZERO_ADDRESS } from '../client/gameView.js';
+import { createRpsModel, initialModelState, actionOf, netTransfers, diffGame, RpsModel } from '../client/rpsModel.js';
+import { formatRevert } from '../client/rpsErrors.js';
+import { CommitmentVault } from '../client/vault.js';
+import { runRematch, logRematchReport, RematchReport } from '../client/rematch.js';
+import { Scenario, Player } from './matrix.js';
+import { beginScenario, endScenario, recordAssertion, recordStep, setScenarioGameId, skipScenario } from '../reportLogger.js';
+import { commitmentOf } from '../client/commitment.js';
+
+type Hex = `0x${string}`;
+
+export type Commit = { move: number; salt: Hex; nonce: Hex };
+
+/** Everything the engine needs from a runner; the adapter hides viem vs ethers */
+export type ScenarioContext = {
+  adapter: ChainAdapter;
+  /** Players of the scenario being run; runScenarios hands each scenario its own pair from `pool` */
+  players: Record<Player, RpsClient>;
+  /** One client per adapter account */
+  pool: RpsClient[];
+  chainId: number;
+  vault?: CommitmentVault;
+  /** Salt/nonce source (default: random); the differential runner seeds it so both libraries send identical calldata */
+  makeCommit?: (move: number) => Commit;
+  /** Suite name in the structured run record (default: scenarios) */
+  suite?: string;
+  /** Anvil only: revert to an evm_snapshot taken before the first scenario so none sees another's state */
+  isolate?: boolean;
+  /** Other scenarios use the contract at the same time, so its balance change is taken from this scenario's ledger */
+  concurrent?: boolean;
+};
+
+export type StepRecord = TxResult & {
+  step: string;
+  player: Player;
+  fee: bigint;
+};
+
+export type ScenarioResult = {
+  name: string;
+  gameId: bigint;
+  steps: StepRecord[];
+  resolved?: GameResolvedEvent;
+  status: GameStatus;
+  deltas: Record<Player, bigint>;
+  /** Wei the contract gained (negative: paid out more than it received during the scenario) */
+  contractDelta: bigint;
+  rematch?: RematchReport;
+};
+
+const moveNames = ['ROCK', 'PAPER', 'SCISSORS'];
+
+// Pretty print ETH without scientific notation, trimming trailing zeros
+function prettyEth(wei: bigint): string {
+  const s = formatEther(wei);
+  return s.includes('.') ? s.replace(/\.0+$/, '').replace(/(\.\d*?)0+$/, '$1') : s;
+}
+
+/** Every scenario is played by two distinct accounts */
+export const PLAYERS_PER_SCENARIO = 2;
+
+/**
+ * Player 1 and 2 default to the adapter's first two accounts. Throws when the adapter has fewer than
+ * two: reusing one account for both sides would only surface later as an InvalidPlayer revert.
+ */
+export async function makeScenarioContext(adapter: ChainAdapter, opts: Pick<ScenarioContext, 'vault' | 'makeCommit' | 'suite' | 'isolate'> = {}): Promise<ScenarioContext> {
+  if (adapter.accounts.length < PLAYERS_PER_SCENARIO) {
+    throw new Error(`Scenarios need ${PLAYERS_PER_SCENARIO} distinct players but the ${adapter.library} adapter has ${adapter.accounts.length} account(s)`);
+  }
+  const pool = adapter.accounts.map(a => makeRpsClient(adapter, a));
+  return {
+    adapter,
+    players: playersFor(pool, 0),
+    pool,
+    chainId: await adapter.chainId(),
+    ...opts
+  };
+}
+
+/** Distinct pair for the `slot`-th scenario, rotating through the pool (always accounts 0 and 1 with two players) */
+export function playersFor(pool: RpsClient[], slot: number): Record<Player, RpsClient> {
+  const first = (slot * PLAYERS_PER_SCENARIO) % pool.length;
+  return { player1: pool[first], player2: pool[(first + 1) % pool.length] };
+}
+
+/**
+ * Replay the mined steps through the offline model, starting from the counter just before this game.
+ * Returns the model and one message per step it disagrees with (a revert, or different events).
+ */
+async function replayModel(adapter: ChainAdapter, steps: StepRecord[], gameId: bigint): Promise<{ model: RpsModel; mismatches: string[] }> {
+  const model = createRpsModel(initialModelState(gameId - 1n));
+  const mismatches: string[] = [];
+  for (const s of steps) {
+    const result = model.apply(actionOf(s), await adapter.blockTimestamp(s.blockNumber));
+    if (!result.ok) {
+      mismatches.push(`${s.step} (${s.player}) would revert with ${formatRevert(result.revert)}`);
+      continue;
+    }
+    const [expected, actual] = [result.events.map(formatEvent).join(', '), s.events.map(formatEvent).join(', ')];
+    if (expected !== actual) mismatches.push(`${s.step} (${s.player}) emitted [${actual}], model [${expected}]`);
+  }
+  return { model, mismatches };
+}
+
+/**
+ * Run one scenario end-to-end and assert status, winner and exact balance deltas.
+ * Throws once all assertions have been checked if any failed; the outcome goes to the run record.
+ */
+export async function runScenario(ctx: ScenarioContext, scenario: Scenario): Promise<ScenarioResult> {
+  beginScenario(ctx.suite ?? 'scenarios', scenario.name);
+  try {
+    const result = await playScenario(ctx, scenario);
+    endScenario('passed');
+    return result;
+  } catch (err) {
+    endScenario('failed', err);
+    throw err;
+  }
+}
+
+async function playScenario(ctx: ScenarioContext, scenario: Scenario): Promise<ScenarioResult> {
+  const { player1: c1, player2: c2 } = ctx.players;
+  const { adapter } = ctx;
+  const commit = ctx.makeCommit ?? makeCommit;
+  const steps: StepRecord[] = [];
+  let resolved: GameResolvedEvent | undefined;
+  let rematch: RematchReport | undefined;
+  const ledger = createLedger();
+
+  function record<T extends TxResult>(step: string, player: Player, r: T, durationMs?: number, statusAfter?: GameStatus): T {
+    ledger.record(r, { statusAfter });
+    steps.push({ ...r, step, player, fee: txFee(r) });
+    recordStep({ name: step, player, txHash: r.hash, gasUsed: r.gasUsed, blockNumber: r.blockNumber, durationMs, status: 'passed' });
+    console.log(`   ✅ ${step} (${player}) TX: ${r.hash}`);
+    return r;
+  }
+
+  // Send one tx and record it with its duration; a revert is recorded as a failed step and rethrown
+  async function step<T extends TxResult>(name: string, player: Player, send: () => Promise<T>): Promise<T> {
+    const started = Date.now();
+    try {
+      const r = await send();
+      const duration = Date.now() - started;
+      // A handleTie without TieHandled is priced by the status it left the game in (see ledger.ts)
+      const statusAfter = needsStatusAfter(r) ? (await c1.getGame(r.args[0] as bigint)).status : undefined;
+      return record(name, player, r, duration, statusAfter);
+    } catch (err) {
+      recordStep({ name, player, durationMs: Date.now() - started, status: 'failed', error: { message: err instanceof Error ? err.message : String(err), stack: err instanceof Error ? err.stack : undefined } });
+      throw err;
+    }
+  }
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`🧪 ${scenario.name}`);
+  console.log(`${'='.repeat(60)}`);
+
+  const before = { player1: await adapter.getBalance(c1.player), player2: await adapter.getBalance(c2.player) };
+  const contractBefore = ctx.concurrent ? 0n : await adapter.getBalance(c1.address);
+
+  // Step 1: Player 1 creates game
+  console.log(`\n📝 Step 1: Player 1 creating game with ${moveNames[scenario.p1Move]}...`);
+  const p1 = commit(scenario.p1Move);
+  const commitment1 = commitmentOf(p1);
+  await ctx.vault?.save({ chainId: ctx.chainId, contract: c1.address, player: c1.player, ...p1, commitment: commitment1 });
+  const { gameId } = await step('createGame', 'player1', () => c1.createGame(commitment1, FIXED_STAKE));
+  setScenarioGameId(gameId);
+  await ctx.vault?.assignGameId(commitment1, gameId);
+  console.log(`   🎮 Game ID: ${gameId}`);
+
+  if (scenario.cancel) {
+    console.log(`\n📝 Step 2: Player 1 cancelling before anyone joins...`);
+    await step('cancelGame', 'player1', () => c1.cancelGame(gameId));
+  } else {
+    // Step 2: Player 2 joins
+    console.log(`\n📝 Step 2: Player 2 joining with ${moveNames[scenario.p2Move]}...`);
+    const p2 = commit(scenario.p2Move);
+    const commitment2 = commitmentOf(p2);
+    await ctx.vault?.save({ chainId: ctx.chainId, contract: c2.address, gameId, player: c2.player, ...p2, commitment: commitment2 });
+    await step('joinGame', 'player2', () => c2.joinGame(gameId, commitment2, FIXED_STAKE));
+
+    // Step 3: Reveals
+    const reveals = scenario.reveals ?? 'both';
+    console.log(`\n📝 Step 3: Reveal phase (${reveals} reveal${reveals === 'both' ? '' : 's'})...`);
+    if (reveals === 'both' || reveals === 'player1') {
+      resolved = (await step('reveal', 'player1', () => c1.reveal(gameId, p1.move, p1.salt, p1.nonce))).resolved ?? resolved;
+    }
+    if (reveals === 'both' || reveals === 'player2') {
+      resolved = (await step('reveal', 'player2', () => c2.reveal(gameId, p2.move, p2.salt, p2.nonce))).resolved ?? resolved;
+    }
+
+    if (reveals !== 'both') {
+      const game = await c1.getGame(gameId);
+      if (await c1.isRevealDeadlinePassed(gameId)) {
+        throw new Error(`isRevealDeadlinePassed(${gameId}) is true before revealDeadline ${game.revealDeadline}`);
+      }
+      console.log(`   ⏳ Advancing past revealDeadline (${game.revealDeadline})...`);
+      await advancePast(adapter, game.revealDeadline);
+      if (!(await c1.isRevealDeadlinePassed(gameId))) {
+        throw new Error(`isRevealDeadlinePassed(${gameId}) is still false after advancing past ${game.revealDeadline}`);
+      }
+      const claimer: Player = scenario.claimBy ?? (reveals === 'player2' ? 'player2' : 'player1');
+      resolved = (await step('claimAfterRevealTimeout', claimer, () => ctx.players[claimer].claimAfterRevealTimeout(gameId))).resolved ?? resolved;
+    }
+
+    // Step 4: Tie resolution
+    const game = await c1.getGame(gameId);
+    if (game.status === GameStatus.TIE_RESOLUTION && scenario.tie) {
+      console.log(`\n📝 Step 4: Tie resolution...`);
+      if ('timeout' in scenario.tie) {
+        console.log(`   ⏳ Advancing past tieResolutionDeadline (${game.tieResolutionDeadline})...`);
+        await advancePast(adapter, game.tieResolutionDeadline);
+        const caller: Player = scenario.tie.calledBy ?? 'player1';
+        // The deadline check runs before choice validation, so any choice (even NONE) triggers the auto-split
+        const choice = scenario.tie.choice ?? TieChoice.SPLIT;
+        const handled = await step('handleTie', caller, () => ctx.players[caller].handleTie(gameId, choice));
+        if (handled.tieHandled) {
+          throw new Error(`handleTie after tieResolutionDeadline emitted TieHandled; expected a silent auto-split`);
+        }
+      } else {
+        const [choice1, choice2] = scenario.tie.choices;
+        await step('handleTie', 'player1', () => c1.handleTie(gameId, choice1));
+        const handled = await step('handleTie', 'player2', () => c2.handleTie(gameId, choice2));
+        if (handled.tieHandled) {
+          console.log(`   ✓ TieHandled: ${TieChoice[handled.tieHandled.player1Choice]} / ${TieChoice[handled.tieHandled.player2Choice]} (rematch=${handled.tieHandled.isRematch})`);
+        }
+        if (scenario.rematch && handled.tieHandled?.isRematch) {
+          console.log(`\n📝 Step 4b: Rematch workflow...`);
+          rematch = await runRematch(ctx.players, gameId, handled.tieHandled, { ...scenario.rematch, makeCommit: ctx.makeCommit });
+          logRematchReport(rematch);
+          if (rematch.state === 'stuck' && rematch.cancelled) record('cancelGame', 'player1', rematch.cancelled);
+        }
+      }
+    }
+  }
+
+  // Step 5: Assertions
+  console.log(`\n📝 Step 5: Checking final state and balances...`);
+  const finalGame = await c1.getGame(gameId);
+  const after = { player1: await adapter.getBalance(c1.player), player2: await adapter.getBalance(c2.player) };
+  const deltas = { player1: after.player1 - before.player1, player2: after.player2 - before.player2 };
+  const contractDelta = ctx.concurrent ? ledger.contractDelta() : (await adapter.getBalance(c1.address)) - contractBefore;
+
+  const failures: string[] = [];
+  function check(name: string, passed: boolean, actual: string, expected: string, failure: string) {
+    recordAssertion({ name, passed, expected, actual });
+    if (!passed) failures.push(failure);
+  }
+
+  check('status', finalGame.status === scenario.expect.status, GameStatus[finalGame.status], GameStatus[scenario.expect.status],
+    `status ${GameStatus[finalGame.status]} (expected ${GameStatus[scenario.expect.status]})`);
+
+  // GameResolved winner must be the exact player address (zero address for ties/splits)
+  const expectedWinner = scenario.expect.winner;
+  const expectedWinnerAddress = expectedWinner === undefined ? undefined
+    : expectedWinner === 'tie' ? ZERO_ADDRESS : ctx.players[expectedWinner].player;
+  const actualWinner: Player | 'tie' | undefined = !resolved ? undefined
+    : resolved.winner.toLowerCase() === ZERO_ADDRESS ? 'tie'
+    : resolved.winner.toLowerCase() === c1.player.toLowerCase() ? 'player1'
+    : resolved.winner.toLowerCase() === c2.player.toLowerCase() ? 'player2'
+    : undefined;
+  const winnerMatches = resolved?.winner.toLowerCase() === expectedWinnerAddress?.toLowerCase();
+  check('winner', winnerMatches, resolved?.winner ?? 'none', expectedWinnerAddress ?? 'none',
+    `GameResolved winner ${resolved?.winner ?? 'none'} (expected ${expectedWinnerAddress ?? 'no GameResolved'})`);
+  if (winnerMatches && resolved) {
+    console.log(`   ✓ GameResolved winner: ${resolved.winner} (${actualWinner})`);
+  }
+
+  if (scenario.expect.rematch !== undefined) {
+    check('rematch', rematch?.state === scenario.expect.rematch, rematch?.state ?? 'not run', scenario.expect.rematch,
+      `rematch workflow ${rematch?.state ?? 'not run'} (expected ${scenario.expect.rematch})`);
+  }
+
+  // Contract must pay out exactly what it holds for the game: the ledger derives it from receipts and events,
+  // the scenario declares it in stakes, and the chain must agree with both
+  const expectedContractDelta = (scenario.expect.contractDelta ?? 0n) * FIXED_STAKE;
+  check('contract delta', contractDelta === expectedContractDelta, `${contractDelta}`, `${expectedContractDelta}`,
+    `contract balance delta ${contractDelta} wei (expected ${expectedContractDelta} wei)`);
+  if (!ctx.concurrent) {
+    check('contract delta (ledger)', contractDelta === ledger.contractDelta(), `${contractDelta}`, `${ledger.contractDelta()}`,
+      `contract balance delta ${contractDelta} wei (ledger ${ledger.contractDelta()} wei)`);
+  }
+
+  // Every step must be one the offline model accepts, with the same events, state and transfers
+  const { model, mismatches } = await replayModel(adapter, steps, gameId);
+  check('model steps', mismatches.length === 0, mismatches.join('; ') || 'all steps match', 'all steps match',
+    `model disagrees: ${mismatches.join('; ')}`);
+  const stateDiff = diffGame(finalGame, model.game(gameId));
+  check('model state', stateDiff.length === 0, stateDiff.join('; ') || 'matches', 'matches', `getGame ${stateDiff.join('; ')}`);
+  const modelFlows = netTransfers(model.transfers());
+
+  for (const p of ['player1', 'player2'] as const) {
+    const address = ctx.players[p].player;
+    const modelFlow = modelFlows.get(address.toLowerCase()) ?? 0n;
+    check(`${p} model transfers`, ledger.stakeFlow(address) === modelFlow, `${ledger.stakeFlow(address)}`, `${modelFlow}`,
+      `${p} stakes/payouts ${ledger.stakeFlow(address)} wei (model ${modelFlow} wei)`);
+    const fees = ledger.fees(address);
+    const flow = ledger.stakeFlow(address);
+    const expected = ledger.delta(address);
+    const declared = scenario.expect.deltas[p] * FIXED_STAKE;
+    console.log(`   ${p}: ${prettyEth(deltas[p])} ETH (ledger ${prettyEth(expected)} ETH = ${prettyEth(flow)} stakes/payouts - ${prettyEth(fees)} fees)`);
+    check(`${p} delta`, deltas[p] === expected, `${deltas[p]}`, `${expected}`, `${p} delta ${deltas[p]} wei (ledger ${expected} wei)`);
+    check(`${p} stake flow`, flow === declared, `${flow}`, `${declared}`,
+      `${p} stakes/payouts ${flow} wei (scenario expects ${scenario.expect.deltas[p]} stake = ${declared} wei)`);
+  }
+
+  console.log(`   Status: ${GameStatus[finalGame.status]} | Winner: ${actualWinner ?? 'none'}`);
+  if (failures.length > 0) {
+    for (const f of failures) console.log(`   ❌ Assertion FAILED: ${f}`);
+    throw new Error(`Scenario "${scenario.name}" failed: ${failures.join('; ')}`);
+  }
+
+  console.log(`\n✅ === Test PASSED ===`);
+  return { name: scenario.name, gameId, steps, resolved, status: finalGame.status, deltas, contractDelta, rematch };
+}
+
+/** Run scenarios sequentially, stopping on the first failure (the rest are reported as skipped) */
+export async function runScenarios(ctx: ScenarioContext, scenarios: Scenario[]): Promise<ScenarioResult[]> {
+  const results: ScenarioResult[] = [];
+  let snapshot = ctx.isolate ? await ctx.adapter.snapshot() : undefined;
+  for (const [i, s] of scenarios.entries()) {
+    try {
+      if (snapshot && i > 0) {
+        // evm_revert consumes the snapshot, so take a fresh one of the same clean state
+        await ctx.adapter.revert(snapshot);
+        snapshot = await ctx.adapter.snapshot();
+      }
+      results.push(await runScenario({ ...ctx, players: playersFor(ctx.pool, i) }, s));
+    } catch (err) {
+      for (const skipped of scenarios.slice(i + 1)) skipScenario(ctx.suite ?? 'scenarios', skipped.name);
+      throw err;
+    }
+  }
+  return results;
+}
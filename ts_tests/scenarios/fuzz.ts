@@ -0,0 +1,395 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { keccak256, toHex } from 'viem';
+import { ChainAdapter, formatEvent } from '../client/chainAdapter.js';
+import { FIXED_STAKE, makeRpsClient } from '../client/rpsClient.js';
+import { GameStatus, Move, TieChoice } from '../client/gameView.js';
+import { decodeRevert, formatRevert } from '../client/rpsErrors.js';
+import { txFee } from '../client/ledger.js';
+import { commitmentOf } from '../client/commitment.js';
+import {
+  ModelAction, ModelResult, ModelState, REVEAL_DURATION, applyAction, diffGame, initialModelState, netTransfers, Transfer
+} from '../client/rpsModel.js';
+import { beginScenario, endScenario, recordAssertion } from '../reportLogger.js';
+
+type Hex = `0x${string}`;
+
+/**
+ * One fuzz step. Players are indices into the run's accounts and games are indices into the games
+ * created so far in the run (an index past the end is a gameId that does not exist), so a trace
+ * replays unchanged on a fresh contract and still makes sense after steps are removed from it.
+ * `id` is fixed at generation and seeds the step's salt and nonce.
+ */
+export type FuzzAction =
+  | { id: number; kind: 'create'; player: number; move: Move; wrongStake?: boolean }
+  | { id: number; kind: 'join'; player: number; game: number; move: Move; wrongStake?: boolean }
+  | { id: number; kind: 'reveal'; player: number; game: number; badSalt?: boolean }
+  | { id: number; kind: 'tie'; player: number; game: number; choice: TieChoice }
+  | { id: number; kind: 'cancel'; player: number; game: number }
+  | { id: number; kind: 'claim'; player: number; game: number }
+  | { id: number; kind: 'warp'; seconds: number };
+
+export type FuzzTrace = { seed: string; players: number; actions: FuzzAction[] };
+
+/** The first check a trace failed: which step, which kind of check, and how */
+export type FuzzFailure = { step: number; check: 'outcome' | 'revert' | 'events' | 'state' | 'balance'; message: string };
+
+/** A saved trace; `failure` is what it diverged on when found, absent for seed traces kept as regressions */
+export type FuzzFixture = FuzzTrace & { version: 1; failure?: FuzzFailure; foundAt: string };
+
+export type FuzzContext = {
+  adapter: ChainAdapter;
+  /** Bring the chain back to the state every trace starts from (fresh contract, no games) */
+  reset(): Promise<void>;
+  log?: (message: string) => void;
+};
+
+// mulberry32 seeded from keccak256(seed): small, fast and identical on every platform
+function prng(seed: string): () => number {
+  let a = Number.parseInt(keccak256(toHex(seed)).slice(2, 10), 16);
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function secretOf(seed: string, id: number, move: Move) {
+  return {
+    move,
+    salt: keccak256(toHex(`${seed}:${id}:salt`)) as Hex,
+    nonce: keccak256(toHex(`${seed}:${id}:nonce`)) as Hex
+  };
+}
+
+const OTHER_SALT = `0x${'ee'.repeat(32)}` as Hex;
+
+/**
+ * Replays a trace against the model alone, resolving player and game indices to calls. The same
+ * interpreter drives generation, so generated actions can favour whatever the model says is possible.
+ */
+class Interpreter {
+  state: ModelState = initialModelState();
+  /** Model gameIds in creation order; FuzzAction.game indexes this */
+  readonly games: bigint[] = [];
+  /** Secret each player committed per game, by player slot */
+  private readonly secrets = new Map<bigint, [ReturnType<typeof secretOf>?, ReturnType<typeof secretOf>?]>();
+  transfers: Transfer[] = [];
+
+  constructor(readonly seed: string, readonly accounts: readonly Hex[]) {}
+
+  gameId(ref: number): bigint {
+    return this.games[ref] ?? this.state.gameCounter + 1_000n + BigInt(ref);
+  }
+
+  /** The contract call for a tx action */
+  call(a: Exclude<FuzzAction, { kind: 'warp' }>): ModelAction {
+    const from = this.accounts[a.player % this.accounts.length];
+    switch (a.kind) {
+      case 'create': {
+        const s = secretOf(this.seed, a.id, a.move);
+        return { functionName: 'createGame', from, commitment: commitmentOf(s), value: a.wrongStake ? FIXED_STAKE + 1n : FIXED_STAKE };
+      }
+      case 'join': {
+        const s = secretOf(this.seed, a.id, a.move);
+        return { functionName: 'joinGame', from, gameId: this.gameId(a.game), commitment: commitmentOf(s), value: a.wrongStake ? FIXED_STAKE - 1n : FIXED_STAKE };
+      }
+      case 'reveal': {
+        const gameId = this.gameId(a.game);
+        const g = this.state.games.get(gameId);
+        const slot = g && g.player2.toLowerCase() === from.toLowerCase() ? 1 : 0;
+        const s = this.secrets.get(gameId)?.[slot] ?? secretOf(this.seed, a.id, Move.ROCK);
+        return { functionName: 'reveal', from, gameId, move: s.move, salt: a.badSalt ? OTHER_SALT : s.salt, nonce: s.nonce };
+      }
+      case 'tie': return { functionName: 'handleTie', from, gameId: this.gameId(a.game), choice: a.choice };
+      case 'cancel': return { functionName: 'cancelGame', from, gameId: this.gameId(a.game) };
+      case 'claim': return { functionName: 'claimAfterRevealTimeout', from, gameId: this.gameId(a.game) };
+    }
+  }
+
+  predict(call: ModelAction, time: bigint): ModelResult {
+    return applyAction(this.state, call, time);
+  }
+
+  commit(a: FuzzAction, result: ModelResult & { ok: true }) {
+    this.state = result.state;
+    this.transfers.push(...result.transfers);
+    if (a.kind === 'create') {
+      this.games.push(result.gameId);
+      this.secrets.set(result.gameId, [secretOf(this.seed, a.id, a.move)]);
+    } else if (a.kind === 'join') {
+      this.secrets.get(result.gameId)![1] = secretOf(this.seed, a.id, a.move);
+    }
+  }
+}
+
+/**
+ * A random trace of `steps` actions over `players` accounts. Actions are drawn with the model in the
+ * loop: mostly moves the current state allows (join an open game, reveal in the reveal phase, settle a
+ * tie), mixed with out-of-order and invalid calls and time warps past the 2-minute deadlines.
+ */
+export function generateTrace(seed: string, steps: number, players: number): FuzzTrace {
+  const rand = prng(seed);
+  const pick = <T>(xs: readonly T[]): T => xs[Math.floor(rand() * xs.length)];
+  const chance = (p: number) => rand() < p;
+  const accounts = Array.from({ length: players }, (_, i) => `0x${(i + 1).toString(16).padStart(40, '0')}` as Hex);
+  const interp = new Interpreter(seed, accounts);
+  const actions: FuzzAction[] = [];
+  let clock = 0n;
+
+  for (let id = 0; id < steps; id++) {
+    const live = interp.games.map((gameId, ref) => ({ ref, g: interp.state.games.get(gameId)! }));
+    const byStatus = (s: GameStatus) => live.filter(x => x.g.status === s);
+    const anyGame = () => live.length > 0 && chance(0.9) ? pick(live).ref : interp.games.length + Math.floor(rand() * 2);
+    const slotPlayer = (g: { player1: Hex; player2: Hex }) => {
+      const slots = [g.player1, g.player2].map(p => accounts.indexOf(p)).filter(i => i >= 0);
+      return slots.length > 0 && chance(0.85) ? pick(slots) : Math.floor(rand() * players);
+    };
+    const player = () => Math.floor(rand() * players);
+    const move = () => pick([Move.ROCK, Move.PAPER, Move.SCISSORS]);
+    const r = rand();
+    let action: FuzzAction;
+
+    if (r < 0.08) {
+      action = { id, kind: 'warp', seconds: chance(0.5) ? 1 + Math.floor(rand() * 60) : Number(REVEAL_DURATION) + 1 + Math.floor(rand() * 60) };
+    } else if (r < 0.22 || live.length === 0) {
+      action = { id, kind: 'create', player: player(), move: move(), wrongStake: chance(0.05) || undefined };
+    } else if (r < 0.40) {
+      const open = byStatus(GameStatus.WAITING);
+      const target = open.length > 0 && chance(0.85) ? pick(open) : undefined;
+      const others = target ? accounts.map((_, i) => i).filter(i => accounts[i] !== target.g.player1) : [];
+      const joiner = others.length > 0 && chance(0.85) ? pick(others) : player();
+      action = { id, kind: 'join', player: joiner, game: target?.ref ?? anyGame(), move: move(), wrongStake: chance(0.05) || undefined };
+    } else if (r < 0.65) {
+      const revealing = byStatus(GameStatus.REVEAL_PHASE);
+      const target = revealing.length > 0 && chance(0.85) ? pick(revealing) : undefined;
+      action = { id, kind: 'reveal', player: target ? slotPlayer(target.g) : player(), game: target?.ref ?? anyGame(), badSalt: chance(0.08) || undefined };
+    } else if (r < 0.82) {
+      const tied = byStatus(GameStatus.TIE_RESOLUTION);
+      const target = tied.length > 0 && chance(0.85) ? pick(tied) : undefined;
+      const choice = chance(0.1) ? TieChoice.NONE : pick([TieChoice.REMATCH, TieChoice.SPLIT]);
+      action = { id, kind: 'tie', player: target ? slotPlayer(target.g) : player(), game: target?.ref ?? anyGame(), choice };
+    } else if (r < 0.90) {
+      action = { id, kind: 'cancel', player: player(), game: anyGame() };
+    } else {
+      action = { id, kind: 'claim', player: player(), game: anyGame() };
+    }
+    actions.push(action);
+
+    // Advance the generator's model exactly as runTrace advances the chain
+    if (action.kind === 'warp') {
+      clock += BigInt(action.seconds);
+      continue;
+    }
+    const result = interp.predict(interp.call(action), clock + 1n);
+    if (result.ok) {
+      interp.commit(action, result);
+      clock += 1n;
+    }
+  }
+  return { seed, players, actions };
+}
+
+function describe(a: FuzzAction): string {
+  switch (a.kind) {
+    case 'warp': return `warp +${a.seconds}s`;
+    case 'create': return `P${a.player + 1} create ${Move[a.move]}${a.wrongStake ? ' (wrong stake)' : ''}`;
+    case 'join': return `P${a.player + 1} join #${a.game} ${Move[a.move]}${a.wrongStake ? ' (wrong stake)' : ''}`;
+    case 'reveal': return `P${a.player + 1} reveal #${a.game}${a.badSalt ? ' (bad salt)' : ''}`;
+    case 'tie': return `P${a.player + 1} handleTie #${a.game} ${TieChoice[a.choice]}`;
+    case 'cancel': return `P${a.player + 1} cancel #${a.game}`;
+    case 'claim': return `P${a.player + 1} claim #${a.game}`;
+  }
+}
+
+const verdict = (r: ModelResult) => r.ok ? 'success' : formatRevert(r.revert);
+
+/**
+ * Run a trace from a clean chain and check every step against the model: a call the model accepts is
+ * mined at an exact timestamp and must emit the same events, leave getGame equal to the model's game
+ * and move every balance by exactly the model's transfers minus gas; a call the model rejects is
+ * simulated and must revert with the same error. Returns the first failure, or undefined.
+ */
+export async function runTrace(ctx: FuzzContext, trace: FuzzTrace, opts: { verbose?: boolean } = {}): Promise<FuzzFailure | undefined> {
+  const { adapter } = ctx;
+  const log = ctx.log ?? console.log;
+  await ctx.reset();
+  const accounts = adapter.accounts.slice(0, trace.players);
+  if (accounts.length < trace.players) throw new Error(`Trace needs ${trace.players} players but the adapter has ${adapter.accounts.length}`);
+  const interp = new Interpreter(trace.seed, accounts);
+  const clients = accounts.map(a => makeRpsClient(adapter, a));
+
+  // Run ahead of wall time so the node never stamps a block or eth_call later than our clock
+  let clock = (await adapter.now()) + 3_600n;
+  await adapter.setNextBlockTimestamp(clock);
+  await adapter.mine();
+  const watched = [...accounts, adapter.contract];
+  const start = await Promise.all(watched.map(a => adapter.getBalance(a)));
+  const fees = new Map<string, bigint>();
+
+  for (const [step, a] of trace.actions.entries()) {
+    const fail = (check: FuzzFailure['check'], message: string): FuzzFailure => ({ step, check, message: `${describe(a)}: ${message}` });
+    if (a.kind === 'warp') {
+      clock += BigInt(a.seconds);
+      await adapter.setNextBlockTimestamp(clock);
+      await adapter.mine();
+      if (opts.verbose) log(`   ${String(step).padStart(3)} ⏩ ${describe(a)}`);
+      continue;
+    }
+
+    const call = interp.call(a);
+    const { functionName, from, ...rest } = call;
+    const args = callArgs(call);
+    const value = 'value' in rest ? rest.value : 0n;
+    const expected = interp.predict(call, clock + 1n);
+
+    if (!expected.ok) {
+      // eth_call may run at the latest block's timestamp or the next one; either verdict is the contract's
+      const atLatest = interp.predict(call, clock);
+      let actual = 'success';
+      try {
+        await adapter.simulate(from, functionName, args, value);
+      } catch (err) {
+        const revert = decodeRevert(err);
+        actual = revert ? formatRevert(revert) : `undecoded error: ${err instanceof Error ? err.message.split('\n')[0] : String(err)}`;
+      }
+      if (opts.verbose) log(`   ${String(step).padStart(3)} ✖️  ${describe(a)} → ${actual}`);
+      if (actual !== verdict(expected) && actual !== verdict(atLatest)) return fail('revert', `reverted with ${actual} (model ${verdict(expected)})`);
+      continue;
+    }
+
+    clock += 1n;
+    await adapter.setNextBlockTimestamp(clock);
+    let mined;
+    try {
+      const pending = await adapter.submit(from, functionName, args, value);
+      for (;;) {
+        mined = await adapter.receipt(pending);
+        if (mined) break;
+        await adapter.mine();
+      }
+    } catch (err) {
+      return fail('outcome', `failed on-chain (${err instanceof Error ? err.message.split('\n')[0] : String(err)}); model expected success`);
+    }
+    interp.commit(a, expected);
+    fees.set(from.toLowerCase(), (fees.get(from.toLowerCase()) ?? 0n) + txFee(mined));
+    if (opts.verbose) log(`   ${String(step).padStart(3)} ✅ ${describe(a)} → ${expected.events.map(e => e.eventName).join(', ') || 'no events'}`);
+
+    const [events, modelEvents] = [mined.events.map(formatEvent).join(', '), expected.events.map(formatEvent).join(', ')];
+    if (events !== modelEvents) return fail('events', `emitted [${events}], model [${modelEvents}]`);
+
+    const stateDiff = diffGame(await clients[0].getGame(expected.gameId), interp.state.games.get(expected.gameId));
+    if (stateDiff.length > 0) return fail('state', `game ${expected.gameId} ${stateDiff.join('; ')}`);
+
+    const net = netTransfers(interp.transfers);
+    const balances = await Promise.all(watched.map(w => adapter.getBalance(w)));
+    for (const [i, who] of watched.entries()) {
+      const key = who === adapter.contract ? 'contract' : who.toLowerCase();
+      const want = start[i] + (net.get(key) ?? 0n) - (fees.get(key) ?? 0n);
+      if (balances[i] !== want) return fail('balance', `${who === adapter.contract ? 'contract' : who} holds ${balances[i]} wei (model ${want})`);
+    }
+  }
+  return undefined;
+}
+
+function callArgs(call: ModelAction): unknown[] {
+  switch (call.functionName) {
+    case 'createGame': return [call.commitment];
+    case 'joinGame': return [call.gameId, call.commitment];
+    case 'reveal': return [call.gameId, call.move, call.salt, call.nonce];
+    case 'handleTie': return [call.gameId, call.choice];
+    case 'cancelGame':
+    case 'claimAfterRevealTimeout': return [call.gameId];
+  }
+}
+
+/**
+ * Delta-debug a failing trace: cut everything after the failing step, then repeatedly drop chunks
+ * (halves, quarters, ... single steps) and point game references at earlier games, while the trace
+ * still fails the same kind of check. Bounded by `maxRuns` re-executions.
+ */
+export async function shrinkTrace(ctx: FuzzContext, trace: FuzzTrace, failure: FuzzFailure, maxRuns = 200): Promise<{ trace: FuzzTrace; failure: FuzzFailure; runs: number }> {
+  const log = ctx.log ?? console.log;
+  let best = { ...trace, actions: trace.actions.slice(0, failure.step + 1) };
+  let bestFailure = failure;
+  let runs = 0;
+
+  const attempt = async (actions: FuzzAction[]): Promise<boolean> => {
+    if (actions.length === 0 || runs >= maxRuns) return false;
+    runs++;
+    const f = await runTrace(ctx, { ...best, actions });
+    if (!f || f.check !== failure.check) return false;
+    const before = best.actions.length;
+    best = { ...best, actions: actions.slice(0, f.step + 1) };
+    bestFailure = f;
+    if (best.actions.length < before) log(`   🔬 Shrunk to ${best.actions.length} step(s)`);
+    return true;
+  };
+
+  for (let progress = true; progress && runs < maxRuns;) {
+    progress = false;
+    for (let chunk = Math.max(1, Math.floor(best.actions.length / 2)); chunk >= 1 && runs < maxRuns; chunk = Math.floor(chunk / 2)) {
+      for (let startAt = 0; startAt < best.actions.length && runs < maxRuns;) {
+        const kept = [...best.actions.slice(0, startAt), ...best.actions.slice(startAt + chunk)];
+        const renumbered = withoutCreates(kept, best.actions.slice(startAt, startAt + chunk), startAt);
+        if ((renumbered && await attempt(renumbered)) || await attempt(kept)) progress = true;
+        else startAt += chunk;
+      }
+    }
+    // A step on game #4 keeps four earlier creates alive; on game #0 it may need only one
+    for (let i = 0; i < best.actions.length && runs < maxRuns; i++) {
+      const a = best.actions[i];
+      if (!('game' in a) || a.game === 0) continue;
+      if (await attempt(best.actions.map((b, j) => j === i ? { ...a, game: 0 } : b))) progress = true;
+    }
+  }
+  return { trace: best, failure: bestFailure, runs };
+}
+
+/**
+ * `kept` with game references after `at` moved down past the creates in `removed`, so dropping a
+ * create does not retarget later steps at a different game. Undefined when nothing needs renumbering.
+ */
+function withoutCreates(kept: FuzzAction[], removed: FuzzAction[], at: number): FuzzAction[] | undefined {
+  const creates = removed.filter(a => a.kind === 'create' && !a.wrongStake).length;
+  if (creates === 0) return undefined;
+  return kept.map((a, i) => i >= at && 'game' in a ? { ...a, game: Math.max(0, a.game - creates) } : a);
+}
+
+/** Write a fixture named after the seed; `yarn fuzz:replay` runs every fixture in the directory */
+export async function saveFixture(dir: string, trace: FuzzTrace, failure?: FuzzFailure): Promise<string> {
+  await fs.mkdir(dir, { recursive: true });
+  const fixture: FuzzFixture = { version: 1, ...trace, failure, foundAt: new Date().toISOString() };
+  const file = path.join(dir, `${trace.seed.replace(/[^\w.-]+/g, '_')}.json`);
+  await fs.writeFile(file, JSON.stringify(fixture, null, 2) + '\n');
+  return file;
+}
+
+/** Fixtures from a file, or every .json fixture in a directory (none if the directory does not exist yet) */
+export async function loadFixtures(target: string): Promise<{ file: string; fixture: FuzzFixture }[]> {
+  const stat = await fs.stat(target).catch(() => undefined);
+  if (!stat && !target.endsWith('.json')) return [];
+  const files = stat?.isDirectory()
+    ? (await fs.readdir(target)).filter(f => f.endsWith('.json')).sort().map(f => path.join(target, f))
+    : [target];
+  return Promise.all(files.map(async file => {
+    const fixture = JSON.parse(await fs.readFile(file, 'utf-8')) as FuzzFixture;
+    if (fixture.version !== 1) throw new Error(`Unsupported fuzz fixture version ${fixture.version} in ${file}`);
+    return { file, fixture };
+  }));
+}
+
+/** Run one trace as a scenario in the run record */
+export async function runTraceReported(ctx: FuzzContext, name: string, trace: FuzzTrace, verbose = false): Promise<FuzzFailure | undefined> {
+  beginScenario('fuzz', name);
+  try {
+    const failure = await runTrace(ctx, trace, { verbose });
+    recordAssertion({ name: 'matches model', passed: !failure, expected: 'every step matches the model', actual: failure ? `step ${failure.step}: ${failure.message}` : 'every step matches the model' });
+    endScenario(failure ? 'failed' : 'passed', failure ? new Error(failure.message) : undefined);
+    return failure;
+  } catch (err) {
+    endScenario('failed', err);
+    throw err;
+  }
+}
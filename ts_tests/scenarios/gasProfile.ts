@@ -0,0 +1,220 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ScenarioResult, StepRecord } from './engine.js';
+import { beginScenario, endScenario, recordAssertion, attachToRun } from '../reportLogger.js';
+import { argValue } from '../client/utils.js';
+
+/**
+ * reveal is split: the first reveal only stores the move, the resolving one pays out. createGame is split
+ * too: game 1 writes gameCounter from zero (a fresh SSTORE, ~17k gas more), which every scenario pays
+ * when snapshots are isolated and only the first one does on a shared chain.
+ */
+export const GAS_FUNCTIONS = [
+  'createGame (first game)',
+  'createGame',
+  'joinGame',
+  'reveal (first)',
+  'reveal (resolving)',
+  'handleTie',
+  'cancelGame',
+  'claimAfterRevealTimeout'
+] as const;
+
+export type GasFunction = typeof GAS_FUNCTIONS[number];
+
+export type GasStats = { count: number; min: bigint; max: bigint; mean: bigint };
+export type GasProfile = Partial<Record<GasFunction, GasStats>>;
+
+/** Committed baseline; numbers so the file stays readable and diffable in review */
+export type GasBaseline = {
+  functions: Partial<Record<GasFunction, { count: number; min: number; max: number; mean: number }>>;
+  /** Mean gas per function within each scenario; compared first, so the scenario mix does not move the check */
+  scenarios?: Record<string, Partial<Record<GasFunction, number>>>;
+};
+
+/** One function within one scenario against its baseline (the scenario's own, else the function's) */
+export type GasComparison = {
+  fn: GasFunction;
+  scenario: string;
+  current: GasStats;
+  baselineMean?: number;
+  /** Change of the mean vs baseline, in percent */
+  changePct?: number;
+  status: 'ok' | 'regressed' | 'improved' | 'new';
+};
+
+export type GasOptions = {
+  baselinePath: string;
+  /** Allowed increase of a function's mean gas, in percent */
+  thresholdPct: number;
+  mode: 'warn' | 'fail';
+  /** Rewrite the baseline from this run instead of comparing */
+  update: boolean;
+};
+
+export const DEFAULT_GAS_BASELINE = path.join('ts_tests', 'gas-baseline.json');
+
+/**
+ * `--gas-threshold <pct>` (default 5, or GAS_THRESHOLD_PCT), `--gas-mode warn|fail` (default warn, or GAS_MODE),
+ * `--gas-baseline <file>`, `--update-gas-baseline`
+ */
+export function gasOptions(argv: string[]): GasOptions {
+  const thresholdPct = Number(argValue(argv, 'gas-threshold') ?? process.env.GAS_THRESHOLD_PCT ?? 5);
+  if (!Number.isFinite(thresholdPct) || thresholdPct < 0) throw new Error(`Invalid --gas-threshold "${thresholdPct}"`);
+  const mode = argValue(argv, 'gas-mode') ?? process.env.GAS_MODE ?? 'warn';
+  if (mode !== 'warn' && mode !== 'fail') throw new Error(`Invalid --gas-mode "${mode}" (expected warn or fail)`);
+  return {
+    baselinePath: argValue(argv, 'gas-baseline') ?? DEFAULT_GAS_BASELINE,
+    thresholdPct,
+    mode,
+    update: argv.includes('--update-gas-baseline')
+  };
+}
+
+export function gasFunctionOf(step: StepRecord): GasFunction | undefined {
+  if (step.step === 'createGame') {
+    const created = step.events.find(e => e.eventName === 'GameCreated');
+    return created?.args.gameId === 1n ? 'createGame (first game)' : 'createGame';
+  }
+  if (step.step === 'reveal') {
+    // Every reveal emits GameRevealed; only the one that completes the pair runs _resolveGame (GameResolved)
+    return step.events.some(e => e.eventName === 'GameResolved') ? 'reveal (resolving)' : 'reveal (first)';
+  }
+  return (GAS_FUNCTIONS as readonly string[]).includes(step.step) ? step.step as GasFunction : undefined;
+}
+
+export function buildGasProfile(results: ScenarioResult[]): GasProfile {
+  const samples = new Map<GasFunction, bigint[]>();
+  for (const step of results.flatMap(r => r.steps)) {
+    const fn = gasFunctionOf(step);
+    if (fn) samples.set(fn, [...(samples.get(fn) ?? []), step.gasUsed]);
+  }
+  const profile: GasProfile = {};
+  for (const fn of GAS_FUNCTIONS) {
+    const gas = samples.get(fn);
+    if (!gas) continue;
+    profile[fn] = {
+      count: gas.length,
+      min: gas.reduce((a, b) => (b < a ? b : a)),
+      max: gas.reduce((a, b) => (b > a ? b : a)),
+      mean: gas.reduce((a, b) => a + b, 0n) / BigInt(gas.length)
+    };
+  }
+  return profile;
+}
+
+export function compareGasProfile(results: ScenarioResult[], baseline: GasBaseline, thresholdPct: number): GasComparison[] {
+  const out: GasComparison[] = [];
+  for (const r of results) {
+    const profile = buildGasProfile([r]);
+    for (const fn of GAS_FUNCTIONS) {
+      const current = profile[fn];
+      if (!current) continue;
+      const baselineMean = baseline.scenarios?.[r.name]?.[fn] ?? baseline.functions[fn]?.mean;
+      if (baselineMean === undefined) {
+        out.push({ fn, scenario: r.name, current, status: 'new' });
+        continue;
+      }
+      const changePct = ((Number(current.mean) - baselineMean) / baselineMean) * 100;
+      const status = changePct > thresholdPct ? 'regressed' : changePct < -thresholdPct ? 'improved' : 'ok';
+      out.push({ fn, scenario: r.name, current, baselineMean, changePct, status });
+    }
+  }
+  return out;
+}
+
+/** The comparison for `fn` that moved furthest up (or least down) */
+function worstChange(comparisons: GasComparison[], fn: GasFunction): GasComparison | undefined {
+  return comparisons
+    .filter(c => c.fn === fn && c.changePct !== undefined)
+    .reduce<GasComparison | undefined>((worst, c) => (!worst || c.changePct! > worst.changePct! ? c : worst), undefined);
+}
+
+export async function loadGasBaseline(filePath: string): Promise<GasBaseline | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as GasBaseline;
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') return undefined;
+    throw err;
+  }
+}
+
+export async function saveGasBaseline(filePath: string, results: ScenarioResult[]): Promise<void> {
+  const functions: GasBaseline['functions'] = {};
+  for (const [fn, s] of Object.entries(buildGasProfile(results)) as [GasFunction, GasStats][]) {
+    functions[fn] = { count: s.count, min: Number(s.min), max: Number(s.max), mean: Number(s.mean) };
+  }
+  const scenarios: NonNullable<GasBaseline['scenarios']> = {};
+  for (const r of results) {
+    scenarios[r.name] = Object.fromEntries(Object.entries(buildGasProfile([r])).map(([fn, s]) => [fn, Number(s.mean)]));
+  }
+  await fs.writeFile(filePath, JSON.stringify({ functions, scenarios }, null, 2) + '\n');
+}
+
+function printGasTable(profile: GasProfile, baseline: GasBaseline, comparisons: GasComparison[]) {
+  const rows = (Object.entries(profile) as [GasFunction, GasStats][]).map(([fn, s]) => {
+    const worst = worstChange(comparisons, fn);
+    return [
+      fn,
+      String(s.count),
+      String(s.min),
+      String(s.max),
+      String(s.mean),
+      baseline.functions[fn] ? String(baseline.functions[fn]!.mean) : '-',
+      worst ? `${worst.changePct! >= 0 ? '+' : ''}${worst.changePct!.toFixed(2)}%` : 'new'
+    ];
+  });
+  const header = ['Function', 'Calls', 'Min', 'Max', 'Mean', 'Baseline', 'Worst'];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+  const line = (cells: string[]) => cells.map((c, i) => (i === 0 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join('  ');
+  console.log(line(header));
+  console.log(widths.map(w => '-'.repeat(w)).join('  '));
+  for (const r of rows) console.log(line(r));
+}
+
+/**
+ * Build the gas profile for a run, print it, attach it to the run record and compare every scenario
+ * with its own baseline. Throws in `fail` mode when a function regresses beyond the threshold in any scenario.
+ */
+export async function checkGasProfile(results: ScenarioResult[], opts: GasOptions): Promise<GasComparison[]> {
+  const profile = buildGasProfile(results);
+  attachToRun('gasProfile', profile);
+
+  if (opts.update) {
+    await saveGasBaseline(opts.baselinePath, results);
+    console.log(`\n⛽ Gas baseline written to ${opts.baselinePath}`);
+    return [];
+  }
+
+  const baseline = await loadGasBaseline(opts.baselinePath) ?? { functions: {} };
+  const comparisons = compareGasProfile(results, baseline, opts.thresholdPct);
+  console.log(`\n⛽ Gas profile (baseline: ${opts.baselinePath}, threshold: +${opts.thresholdPct}% per scenario, mode: ${opts.mode})`);
+  printGasTable(profile, baseline, comparisons);
+
+  const regressed = comparisons.filter(c => c.status === 'regressed');
+  for (const c of comparisons.filter(c => c.status === 'improved')) {
+    console.log(`   ℹ️  ${c.fn} in "${c.scenario}" dropped ${Math.abs(c.changePct!).toFixed(2)}%; refresh with --update-gas-baseline`);
+  }
+
+  beginScenario('gas', 'gas profile vs baseline');
+  for (const fn of Object.keys(profile) as GasFunction[]) {
+    const worst = worstChange(comparisons, fn);
+    recordAssertion({
+      name: `${fn} gas`,
+      passed: !regressed.some(c => c.fn === fn) || opts.mode === 'warn',
+      expected: worst ? `<= baseline +${opts.thresholdPct}% in every scenario` : 'no baseline',
+      actual: worst ? `${worst.changePct! >= 0 ? '+' : ''}${worst.changePct!.toFixed(2)}% in "${worst.scenario}" (${worst.baselineMean} -> ${worst.current.mean})` : String(profile[fn]!.mean)
+    });
+  }
+  if (regressed.length > 0) {
+    const summary = regressed.map(c => `${c.fn} in "${c.scenario}" +${c.changePct!.toFixed(2)}% (${c.baselineMean} -> ${c.current.mean})`).join('; ');
+    if (opts.mode === 'fail') {
+      const err = new Error(`Gas regression beyond ${opts.thresholdPct}%: ${summary}`);
+      endScenario('failed', err);
+      throw err;
+    }
+    console.log(`   ⚠️  Gas regression beyond ${opts.thresholdPct}%: ${summary}`);
+  }
+  endScenario('passed');
+  return comparisons;
+}
@@ -0,0 +1,170 @@
+import { Move, GameStatus, TieChoice, determineWinner } from '../client/gameView.js';
+import { argValue } from '../client/utils.js';
+
+export type Player = 'player1' | 'player2';
+
+/**
+ * A scenario is data: what each player does and what the chain must look like afterwards.
+ * Balance deltas are expressed in stakes (1n = one FIXED_STAKE); gas is accounted for by the engine.
+ */
+export type Scenario = {
+  name: string;
+  p1Move: Move;
+  p2Move: Move;
+  /** Player 1 cancels before anyone joins (moves are only used for the commitment) */
+  cancel?: boolean;
+  /** Who reveals during the reveal phase (default: both) */
+  reveals?: 'both' | Player | 'none';
+  /** Who calls claimAfterRevealTimeout when not both revealed (default: the revealer, else player1) */
+  claimBy?: Player;
+  /** Tie handling once the game is in TIE_RESOLUTION */
+  tie?:
+    | { choices: [TieChoice, TieChoice] }
+    /** Let tieResolutionDeadline pass, then `calledBy` finalizes with `choice` (default SPLIT) */
+    | { timeout: true; calledBy?: Player; choice?: TieChoice };
+  /** After both choose REMATCH: next-round moves, and whether player 1 cancels a stuck rematch */
+  rematch?: { moves: [Move, Move]; onStuck?: 'report' | 'cancel' };
+  expect: {
+    /** Winner of the final GameResolved event ('tie' = zero address); omit when none is emitted */
+    winner?: Player | 'tie';
+    status: GameStatus;
+    deltas: { player1: bigint; player2: bigint };
+    /** Stakes left in the contract afterwards (default 0n: everything paid out) */
+    contractDelta?: bigint;
+    /** Outcome reported by the rematch workflow (always stuck until the contract can re-commit) */
+    rematch?: 'stuck';
+  };
+};
+
+const { ROCK, PAPER, SCISSORS } = Move;
+const names = ['ROCK', 'PAPER', 'SCISSORS'];
+
+const WIN = { player1: 1n, player2: -1n };
+const LOSS = { player1: -1n, player2: 1n };
+const EVEN = { player1: 0n, player2: 0n };
+
+function moveRow(p1Move: Move, p2Move: Move): Scenario {
+  const outcome = determineWinner(p1Move, p2Move);
+  const base = `${names[p1Move]} vs ${names[p2Move]}`;
+  if (outcome === 0) {
+    return {
+      name: `${base} (Tie - both SPLIT)`,
+      p1Move, p2Move,
+      tie: { choices: [TieChoice.SPLIT, TieChoice.SPLIT] },
+      expect: { winner: 'tie', status: GameStatus.COMPLETED, deltas: EVEN }
+    };
+  }
+  const p1Wins = outcome === 1;
+  return {
+    name: `${base} (${p1Wins ? 'Player 1' : 'Player 2'} Wins)`,
+    p1Move, p2Move,
+    expect: { winner: p1Wins ? 'player1' : 'player2', status: GameStatus.COMPLETED, deltas: p1Wins ? WIN : LOSS }
+  };
+}
+
+/** All 9 move pairs */
+export const MOVE_MATRIX: Scenario[] = [ROCK, PAPER, SCISSORS].flatMap(m1 =>
+  [ROCK, PAPER, SCISSORS].map(m2 => moveRow(m1, m2))
+);
+
+/** claimAfterRevealTimeout and tie auto-split paths; time is warped with evm_increaseTime on Anvil */
+export const TIMEOUT_PATHS: Scenario[] = [
+  {
+    name: 'Reveal timeout - only Player 1 revealed (Player 1 claims pot)',
+    p1Move: ROCK, p2Move: PAPER,
+    reveals: 'player1',
+    expect: { winner: 'player1', status: GameStatus.COMPLETED, deltas: WIN }
+  },
+  {
+    name: 'Reveal timeout - only Player 2 revealed (Player 2 claims pot)',
+    p1Move: PAPER, p2Move: ROCK,
+    reveals: 'player2',
+    expect: { winner: 'player2', status: GameStatus.COMPLETED, deltas: LOSS }
+  },
+  {
+    name: 'Reveal timeout - nobody revealed (split)',
+    p1Move: SCISSORS, p2Move: ROCK,
+    reveals: 'none',
+    claimBy: 'player2',
+    expect: { winner: 'tie', status: GameStatus.COMPLETED, deltas: EVEN }
+  },
+  {
+    name: 'Reveal timeout - only Player 1 revealed, Player 2 triggers the claim (pot still goes to Player 1)',
+    p1Move: SCISSORS, p2Move: ROCK,
+    reveals: 'player1',
+    claimBy: 'player2',
+    expect: { winner: 'player1', status: GameStatus.COMPLETED, deltas: WIN }
+  },
+  {
+    name: 'Tie - resolution timeout (auto-split)',
+    p1Move: SCISSORS, p2Move: SCISSORS,
+    tie: { timeout: true, calledBy: 'player2' },
+    expect: { winner: 'tie', status: GameStatus.COMPLETED, deltas: EVEN }
+  },
+  {
+    name: 'Tie - resolution timeout finalized with NONE (auto-split ignores the choice)',
+    p1Move: PAPER, p2Move: PAPER,
+    tie: { timeout: true, calledBy: 'player1', choice: TieChoice.NONE },
+    expect: { winner: 'tie', status: GameStatus.COMPLETED, deltas: EVEN }
+  }
+];
+
+/** Every terminal path that is not a plain reveal-reveal resolution */
+export const TERMINAL_PATHS: Scenario[] = [
+  {
+    name: 'Cancel before join (refund Player 1)',
+    p1Move: ROCK, p2Move: ROCK,
+    cancel: true,
+    expect: { status: GameStatus.CANCELLED, deltas: EVEN }
+  },
+  ...TIMEOUT_PATHS,
+  {
+    name: 'Tie - REMATCH vs SPLIT (split wins)',
+    p1Move: PAPER, p2Move: PAPER,
+    tie: { choices: [TieChoice.REMATCH, TieChoice.SPLIT] },
+    expect: { winner: 'tie', status: GameStatus.COMPLETED, deltas: EVEN }
+  },
+  {
+    name: 'Tie - both REMATCH (game resets to WAITING, stakes stay locked)',
+    p1Move: ROCK, p2Move: ROCK,
+    tie: { choices: [TieChoice.REMATCH, TieChoice.REMATCH] },
+    rematch: { moves: [PAPER, ROCK], onStuck: 'report' },
+    expect: { winner: 'tie', status: GameStatus.WAITING, deltas: { player1: -1n, player2: -1n }, contractDelta: 2n, rematch: 'stuck' }
+  },
+  {
+    name: 'Tie - both REMATCH, stuck rematch cancelled by Player 1 (only Player 1 refunded)',
+    p1Move: SCISSORS, p2Move: SCISSORS,
+    tie: { choices: [TieChoice.REMATCH, TieChoice.REMATCH] },
+    rematch: { moves: [ROCK, SCISSORS], onStuck: 'cancel' },
+    expect: { winner: 'tie', status: GameStatus.CANCELLED, deltas: { player1: 0n, player2: -1n }, contractDelta: 1n, rematch: 'stuck' }
+  }
+];
+
+export const SCENARIOS: Scenario[] = [...MOVE_MATRIX, ...TERMINAL_PATHS];
+
+export const SUITES: Record<string, Scenario[]> = {
+  all: SCENARIOS,
+  matrix: MOVE_MATRIX,
+  terminal: TERMINAL_PATHS,
+  timeouts: TIMEOUT_PATHS
+};
+
+/** Suite name selected by `--suite` (default: all) */
+export function selectedSuite(argv: string[]): string {
+  return argValue(argv, 'suite') ?? 'all';
+}
+
+/**
+ * `--suite <name>` picks a scenario group (default: all);
+ * `--scenario <text>` keeps only scenarios whose name contains the text (case-insensitive)
+ */
+export function selectScenarios(argv: string[]): Scenario[] {
+  const suite = selectedSuite(argv);
+  const all = SUITES[suite];
+  if (!all) throw new Error(`Unknown --suite "${suite}" (expected one of: ${Object.keys(SUITES).join(', ')})`);
+  const filter = argValue(argv, 'scenario');
+  if (!filter) return all;
+  const selected = all.filter(s => s.name.toLowerCase().includes(filter.toLowerCase()));
+  if (selected.length === 0) throw new Error(`No scenario matches --scenario "${filter}"`);
+  return selected;
+}
@@ -0,0 +1,313 @@
+import { makeCommit } from '../client/utils.js';
+import { RpsClient, FIXED_STAKE } from '../client/rpsClient.js';
+import { ChainAdapter, advancePast } from '../client/chainAdapter.js';
+import { GameStatus, Move, TieChoice } from '../client/gameView.js';
+import { RpsRevert, decodeRevert, formatRevert } from '../client/rpsErrors.js';
+import { Commit } from './engine.js';
+import { beginScenario, endScenario, recordAssertion, skipScenario } from '../reportLogger.js';
+import { commitmentOf } from '../client/commitment.js';
+
+type Hex = `0x${string}`;
+
+export type Caller = 'player1' | 'player2' | 'outsider';
+
+/**
+ * State of the shared fixture game when a case runs. Phases are reached in this order: the main game is
+ * created (waiting), joined (revealPhase), revealed by player 1 (player1Revealed); a second game ties
+ * (tie); a third ties and both players choose REMATCH (rematch); then the main game's reveal deadline is
+ * passed (revealExpired).
+ */
+export const REVERT_PHASES = ['waiting', 'revealPhase', 'player1Revealed', 'tie', 'rematch', 'revealExpired'] as const;
+export type RevertPhase = typeof REVERT_PHASES[number];
+
+export type Fixture = {
+  /** The game every phase except `tie` and `rematch` runs against */
+  gameId: bigint;
+  /** Game left in TIE_RESOLUTION for the `tie` phase */
+  tieGameId?: bigint;
+  /** Game back in WAITING, still holding player 2, for the `rematch` phase */
+  rematchGameId?: bigint;
+  /** No game has this id */
+  missingId: bigint;
+  secrets: Record<'player1' | 'player2', Commit>;
+};
+
+export type RevertCall = { functionName: string; args: unknown[]; value?: bigint };
+
+/** One guarded branch: a call that must revert with exactly `expect` */
+export type RevertCase = {
+  name: string;
+  phase: RevertPhase;
+  from: Caller;
+  call: (f: Fixture) => RevertCall;
+  expect: RpsRevert;
+};
+
+const fixedStake: RpsRevert = { name: 'FixedStakeRequired', required: FIXED_STAKE };
+const OTHER_SALT = `0x${'11'.repeat(32)}` as Hex;
+
+const revealWith = (c: Commit, gameId: bigint): RevertCall =>
+  ({ functionName: 'reveal', args: [gameId, c.move, c.salt, c.nonce] });
+
+/** Every guarded branch the Forge unit tests cover, as calls against a live contract */
+export const REVERT_CASES: RevertCase[] = [
+  // WAITING
+  {
+    name: 'createGame without a stake',
+    phase: 'waiting', from: 'player1',
+    call: f => ({ functionName: 'createGame', args: [commitmentOf(f.secrets.player1)], value: 0n }),
+    expect: fixedStake
+  },
+  {
+    name: 'createGame with twice the stake',
+    phase: 'waiting', from: 'player1',
+    call: f => ({ functionName: 'createGame', args: [commitmentOf(f.secrets.player1)], value: FIXED_STAKE * 2n }),
+    expect: fixedStake
+  },
+  {
+    name: 'joinGame with less than the stake',
+    phase: 'waiting', from: 'player2',
+    call: f => ({ functionName: 'joinGame', args: [f.gameId, commitmentOf(f.secrets.player2)], value: FIXED_STAKE - 1n }),
+    expect: fixedStake
+  },
+  {
+    name: 'joinGame of your own game',
+    phase: 'waiting', from: 'player1',
+    call: f => ({ functionName: 'joinGame', args: [f.gameId, commitmentOf(f.secrets.player2)], value: FIXED_STAKE }),
+    expect: { name: 'InvalidPlayer' }
+  },
+  {
+    name: 'joinGame of game 0',
+    phase: 'waiting', from: 'player2',
+    call: f => ({ functionName: 'joinGame', args: [0n, commitmentOf(f.secrets.player2)], value: FIXED_STAKE }),
+    expect: { name: 'InvalidGameId' }
+  },
+  {
+    name: 'joinGame of a game that does not exist',
+    phase: 'waiting', from: 'player2',
+    call: f => ({ functionName: 'joinGame', args: [f.missingId, commitmentOf(f.secrets.player2)], value: FIXED_STAKE }),
+    expect: { name: 'InvalidGameId' }
+  },
+  {
+    name: 'reveal in a game that does not exist',
+    phase: 'waiting', from: 'player1',
+    call: f => revealWith(f.secrets.player1, f.missingId),
+    expect: { name: 'InvalidGameId' }
+  },
+  {
+    name: 'reveal before anyone joined',
+    phase: 'waiting', from: 'player1',
+    call: f => revealWith(f.secrets.player1, f.gameId),
+    expect: { name: 'GameNotInRevealPhase' }
+  },
+  {
+    name: 'cancelGame by player 2',
+    phase: 'waiting', from: 'player2',
+    call: f => ({ functionName: 'cancelGame', args: [f.gameId] }),
+    expect: { name: 'OnlyPlayer1CanCancel' }
+  },
+
+  // REVEAL_PHASE
+  {
+    // The status check runs first; PlayerAlreadyJoined needs a WAITING game with a player 2 (see `rematch`)
+    name: 'joinGame twice',
+    phase: 'revealPhase', from: 'player2',
+    call: f => ({ functionName: 'joinGame', args: [f.gameId, commitmentOf(f.secrets.player2)], value: FIXED_STAKE }),
+    expect: { name: 'GameNotInWaitingStatus' }
+  },
+  {
+    name: 'cancelGame after player 2 joined',
+    phase: 'revealPhase', from: 'player1',
+    call: f => ({ functionName: 'cancelGame', args: [f.gameId] }),
+    expect: { name: 'GameNotInWaitingStatus' }
+  },
+  {
+    name: 'reveal by a non-player',
+    phase: 'revealPhase', from: 'outsider',
+    call: f => revealWith(f.secrets.player1, f.gameId),
+    expect: { name: 'InvalidPlayer' }
+  },
+  {
+    name: 'reveal with the wrong salt',
+    phase: 'revealPhase', from: 'player1',
+    call: f => revealWith({ ...f.secrets.player1, salt: OTHER_SALT }, f.gameId),
+    expect: { name: 'InvalidCommitment' }
+  },
+  {
+    name: 'reveal with a different move',
+    phase: 'revealPhase', from: 'player1',
+    call: f => revealWith({ ...f.secrets.player1, move: (f.secrets.player1.move + 1) % 3 }, f.gameId),
+    expect: { name: 'InvalidCommitment' }
+  },
+  {
+    // RevealDeadlinePassed doubles as the "not yet passed" guard here
+    name: 'claimAfterRevealTimeout before the deadline',
+    phase: 'revealPhase', from: 'player1',
+    call: f => ({ functionName: 'claimAfterRevealTimeout', args: [f.gameId] }),
+    expect: { name: 'RevealDeadlinePassed' }
+  },
+  {
+    name: 'handleTie outside tie resolution',
+    phase: 'revealPhase', from: 'player1',
+    call: f => ({ functionName: 'handleTie', args: [f.gameId, TieChoice.SPLIT] }),
+    expect: { name: 'GameNotInTieResolution' }
+  },
+
+  // Player 1 revealed
+  {
+    name: 'reveal twice',
+    phase: 'player1Revealed', from: 'player1',
+    call: f => revealWith(f.secrets.player1, f.gameId),
+    expect: { name: 'MoveAlreadyRevealed' }
+  },
+
+  // TIE_RESOLUTION (second game)
+  {
+    name: 'handleTie with NONE',
+    phase: 'tie', from: 'player1',
+    call: f => ({ functionName: 'handleTie', args: [f.tieGameId, TieChoice.NONE] }),
+    expect: { name: 'InvalidGameStatus' }
+  },
+  {
+    name: 'handleTie by a non-player',
+    phase: 'tie', from: 'outsider',
+    call: f => ({ functionName: 'handleTie', args: [f.tieGameId, TieChoice.SPLIT] }),
+    expect: { name: 'InvalidPlayer' }
+  },
+
+  // WAITING again after both chose REMATCH (third game); player 2 is kept
+  {
+    name: 'joinGame of a rematched game',
+    phase: 'rematch', from: 'player2',
+    call: f => ({ functionName: 'joinGame', args: [f.rematchGameId, commitmentOf(f.secrets.player2)], value: FIXED_STAKE }),
+    expect: { name: 'PlayerAlreadyJoined' }
+  },
+
+  // Reveal deadline passed
+  {
+    name: 'reveal after the deadline',
+    phase: 'revealExpired', from: 'player2',
+    call: f => revealWith(f.secrets.player2, f.gameId),
+    expect: { name: 'RevealDeadlinePassed' }
+  }
+];
+
+export type RevertSuiteContext = {
+  adapter: ChainAdapter;
+  players: Record<'player1' | 'player2', RpsClient>;
+  /** Account the adapter can sign for that plays in neither game; it only simulates, so it needs no ETH */
+  outsider: Hex;
+  /**
+   * Run the `rematch` phase, whose game keeps player 2's stake for good (cancelGame refunds player 1
+   * only). Default: only on a local node; on a live network its cases are reported as skipped.
+   */
+  lockStake?: boolean;
+};
+
+export type RevertResult = { name: string; expected: string; actual: string; passed: boolean };
+
+/**
+ * Run `cases` against fresh fixture games. Every case is an eth_call from its caller, so a revert costs
+ * no gas; only the fixture's own txs are mined (create, join, one reveal, a tied game split by both
+ * players, a tied game both rematch and player 1 then cancels, and the final claim that returns the
+ * stakes). The rematched game keeps player 2's stake: the contract has no way to return it, so that
+ * phase needs `lockStake`. Whatever the fixture games reached, their stakes are reclaimed even when a
+ * phase throws. On a live network the last phase waits out REVEAL_DURATION.
+ */
+export async function runRevertSuite(ctx: RevertSuiteContext, cases: RevertCase[] = REVERT_CASES): Promise<RevertResult[]> {
+  const { adapter, players: { player1: p1, player2: p2 } } = ctx;
+  const from = (caller: Caller): Hex => caller === 'outsider' ? ctx.outsider : ctx.players[caller].player;
+  const lockStake = ctx.lockStake ?? adapter.isLocal;
+  const results: RevertResult[] = [];
+  const secrets = { player1: makeCommit(Move.ROCK), player2: makeCommit(Move.PAPER) };
+
+  const { gameId } = await p1.createGame(commitmentOf(secrets.player1));
+  const fixture: Fixture = { gameId, missingId: gameId + 1_000_000n, secrets };
+  const created = [gameId];
+  console.log(`   🎮 Fixture game ${gameId}`);
+
+  try {
+    for (const phase of REVERT_PHASES) {
+      let selected = cases.filter(c => c.phase === phase);
+      if (phase === 'rematch' && !lockStake) {
+        for (const c of selected) skipScenario('reverts', c.name);
+        if (selected.length > 0) console.log(`\n⏭️  Skipping ${selected.length} rematch case(s): the rematched game would keep player 2's stake (lockStake, or --lock-stake, runs them)`);
+        selected = [];
+      }
+      if (phase === 'revealPhase') await p2.joinGame(gameId, commitmentOf(secrets.player2));
+      if (phase === 'player1Revealed') await p1.reveal(gameId, secrets.player1.move, secrets.player1.salt, secrets.player1.nonce);
+      if (phase === 'tie' && selected.length > 0) fixture.tieGameId = await tiedGame(p1, p2, created);
+      if (phase === 'rematch' && selected.length > 0) {
+        fixture.rematchGameId = await tiedGame(p1, p2, created);
+        await p1.handleTie(fixture.rematchGameId, TieChoice.REMATCH);
+        await p2.handleTie(fixture.rematchGameId, TieChoice.REMATCH);
+      }
+      if (phase === 'revealExpired') {
+        const game = await p1.getGame(gameId);
+        console.log(`   ⏳ Advancing past revealDeadline (${game.revealDeadline})...`);
+        await advancePast(adapter, game.revealDeadline);
+      }
+
+      for (const c of selected) {
+        console.log(`\n🧪 ${c.name}`);
+        beginScenario('reverts', c.name);
+        const { functionName, args, value } = c.call(fixture);
+        let actual = 'no revert';
+        try {
+          await adapter.simulate(from(c.from), functionName, args, value);
+        } catch (err) {
+          const revert = decodeRevert(err);
+          actual = revert ? formatRevert(revert) : `undecoded error: ${err instanceof Error ? err.message.split('\n')[0] : String(err)}`;
+        }
+        const expected = formatRevert(c.expect);
+        const passed = actual === expected;
+        recordAssertion({ name: `${functionName} revert`, passed, expected, actual });
+        endScenario(passed ? 'passed' : 'failed', passed ? undefined : new Error(`${actual} (expected ${expected})`));
+        console.log(`   ${passed ? '✅' : '❌'} ${functionName}: ${actual}${passed ? '' : ` (expected ${expected})`}`);
+        results.push({ name: c.name, expected, actual, passed });
+      }
+    }
+  } finally {
+    // Tied games first: advancing past the main game's deadline on a live network takes the longest
+    for (const id of [...created.slice(1), gameId]) await reclaim(ctx, id);
+  }
+  return results;
+}
+
+/**
+ * Return what a fixture game still holds, from whatever status it was left in: a waiting (or
+ * rematched) game is cancelled, refunding player 1 only; a tie splits; a game in REVEAL_PHASE is
+ * claimed once its deadline passes. A failure is logged rather than thrown, so it cannot hide the
+ * error that stopped the phases.
+ */
+async function reclaim(ctx: RevertSuiteContext, id: bigint) {
+  const { adapter, players: { player1: p1, player2: p2 } } = ctx;
+  try {
+    let game = await p1.getGame(id);
+    if (game.status === GameStatus.WAITING) await p1.cancelGame(id);
+    if (game.status === GameStatus.TIE_RESOLUTION) {
+      await p1.handleTie(id, TieChoice.SPLIT);
+      // Past the tie deadline the first call already split
+      game = await p1.getGame(id);
+      if (game.status === GameStatus.TIE_RESOLUTION) await p2.handleTie(id, TieChoice.SPLIT);
+    }
+    if (game.status === GameStatus.REVEAL_PHASE) {
+      await advancePast(adapter, game.revealDeadline);
+      await p1.claimAfterRevealTimeout(id);
+    }
+  } catch (err) {
+    console.log(`   ⚠️  Could not reclaim the stakes of fixture game ${id}: ${err instanceof Error ? err.message.split('\n')[0] : String(err)}`);
+  }
+}
+
+/** Create, join and reveal the same move from both players; the new id is added to `created` */
+async function tiedGame(p1: RpsClient, p2: RpsClient, created: bigint[]): Promise<bigint> {
+  const s1 = makeCommit(Move.SCISSORS);
+  const s2 = makeCommit(Move.SCISSORS);
+  const { gameId } = await p1.createGame(commitmentOf(s1));
+  created.push(gameId);
+  await p2.joinGame(gameId, commitmentOf(s2));
+  await p1.reveal(gameId, s1.move, s1.salt, s1.nonce);
+  await p2.reveal(gameId, s2.move, s2.salt, s2.nonce);
+  return gameId;
+}
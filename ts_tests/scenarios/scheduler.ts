@@ -0,0 +1,101 @@
+import { Scenario } from './matrix.js';
+import { ScenarioContext, ScenarioResult, runScenario, PLAYERS_PER_SCENARIO } from './engine.js';
+import { inScenarioScope, skipScenario } from '../reportLogger.js';
+import { argValue } from '../client/utils.js';
+
+export type ParallelOptions = {
+  /** Scenarios in flight at once (default: one per player pair in the pool) */
+  concurrency?: number;
+};
+
+type Job = { index: number; scenario: Scenario };
+
+/**
+ * `--parallel` runs one scenario per player pair at a time, `--parallel <n>` caps it at n;
+ * undefined means the sequential runner
+ */
+export function parallelOptions(argv: string[]): ParallelOptions | undefined {
+  if (!argv.some(a => a === '--parallel' || a.startsWith('--parallel='))) return undefined;
+  const value = argValue(argv, 'parallel');
+  if (value === undefined || value.startsWith('--')) return {};
+  if (!/^[1-9]\d*$/.test(value)) throw new Error(`Invalid --parallel "${value}" (expected a positive number of scenarios)`);
+  return { concurrency: Number(value) };
+}
+
+/** Whether the scenario moves chain time forward (which on Anvil moves it for every scenario in flight) */
+function warpsTime(s: Scenario): boolean {
+  if (s.cancel) return false;
+  return (s.reveals ?? 'both') !== 'both' || (s.tie !== undefined && 'timeout' in s.tie);
+}
+
+function seconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Run scenarios concurrently, one per lane. Lane i owns pool accounts 2i and 2i+1 for the whole run,
+ * so no two scenarios ever share a sender and each account's nonces stay with a single lane. Each
+ * scenario's console output and run-record entries are kept in its own scope and written as one block
+ * when it finishes. On Anvil, scenarios that warp time run one at a time after the others, because
+ * evm_increaseTime would push every other game in flight past its deadline. After the first failure
+ * no new scenario starts; the rest are recorded as skipped. Results come back in scenario order.
+ */
+export async function runScenariosParallel(ctx: ScenarioContext, scenarios: Scenario[], opts: ParallelOptions = {}): Promise<ScenarioResult[]> {
+  if (ctx.isolate) throw new Error('Per-scenario snapshots revert every scenario in flight; run without --parallel to isolate scenarios');
+  const pairs = Math.floor(ctx.pool.length / PLAYERS_PER_SCENARIO);
+  const concurrency = opts.concurrency ?? pairs;
+  if (concurrency > pairs) {
+    throw new Error(`--parallel ${concurrency} needs ${concurrency * PLAYERS_PER_SCENARIO} distinct players but only ${ctx.pool.length} are configured. ` +
+      `Set MNEMONIC with PLAYER_COUNT=${concurrency * PLAYERS_PER_SCENARIO} or more, or lower --parallel`);
+  }
+  const lanes = Array.from({ length: concurrency }, (_, i) => ({
+    player1: ctx.pool[i * PLAYERS_PER_SCENARIO],
+    player2: ctx.pool[i * PLAYERS_PER_SCENARIO + 1]
+  }));
+
+  const jobs: Job[] = scenarios.map((scenario, index) => ({ index, scenario }));
+  const exclusive = ctx.adapter.isLocal ? jobs.filter(j => warpsTime(j.scenario)) : [];
+  const shared = jobs.filter(j => !exclusive.includes(j));
+  const results: (ScenarioResult | undefined)[] = new Array(scenarios.length);
+  const failures: { name: string; error: unknown }[] = [];
+  const durations: number[] = [];
+  const suite = ctx.suite ?? 'scenarios';
+  const started = Date.now();
+
+  async function play(job: Job, lane: number) {
+    const label = `[${job.index + 1}/${scenarios.length} lane ${lane + 1}]`;
+    console.log(`▶️  ${label} ${job.scenario.name}`);
+    const t0 = Date.now();
+    try {
+      results[job.index] = await inScenarioScope(() => runScenario({ ...ctx, players: lanes[lane], concurrent: true }, job.scenario));
+      console.log(`✅ ${label} ${job.scenario.name} (${seconds(Date.now() - t0)})`);
+    } catch (error) {
+      failures.push({ name: job.scenario.name, error });
+      console.log(`❌ ${label} ${job.scenario.name} (${seconds(Date.now() - t0)}): ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      durations.push(Date.now() - t0);
+    }
+  }
+
+  async function drain(queue: Job[], lane: number) {
+    for (let job = queue.shift(); job && failures.length === 0; job = queue.shift()) await play(job, lane);
+  }
+
+  console.log(`\n🔀 Running ${shared.length} scenario(s) across ${concurrency} lane(s)` +
+    (exclusive.length > 0 ? `, then ${exclusive.length} time-warping scenario(s) one at a time` : ''));
+  await Promise.all(lanes.map((_, lane) => drain(shared, lane)));
+  await drain(exclusive, 0);
+
+  const skipped = jobs.filter(j => results[j.index] === undefined && !failures.some(f => f.name === j.scenario.name));
+  for (const j of skipped) skipScenario(suite, j.scenario.name);
+  const wall = Date.now() - started;
+  const busy = durations.reduce((sum, ms) => sum + ms, 0);
+  console.log(`\n📊 ${scenarios.length - failures.length - skipped.length} passed, ${failures.length} failed, ${skipped.length} skipped ` +
+    `in ${seconds(wall)} (${seconds(busy)} if run one after another)`);
+
+  if (failures.length > 0) {
+    const detail = failures.map(f => `${f.name}: ${f.error instanceof Error ? f.error.message : String(f.error)}`).join('\n  ');
+    throw new Error(`${failures.length} scenario(s) failed in the parallel run:\n  ${detail}`);
+  }
+  return results as ScenarioResult[];
+}
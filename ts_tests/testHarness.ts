@@ -0,0 +1,62 @@
+import { parseEther } from 'viem';
+import { beginScenario, endScenario, recordAssertion } from './reportLogger.js';
+
+type Hex = `0x${string}`;
+
+/** The two viem PublicClient methods the Anvil helpers need */
+export type AnvilClient = {
+  getBalance(args: { address: Hex }): Promise<bigint>;
+  request(args: { method: any; params?: any }): Promise<unknown>;
+};
+
+export type Checks = {
+  /** Every failed expectation so far, as `name: actual (expected ...)` */
+  failures: string[];
+  /** Record and print one comparison; a mismatch is collected, not thrown, so the scenario keeps checking */
+  expectEqual(name: string, actual: unknown, expected: unknown): void;
+  /** Run `body` as one scenario in the run record; it fails if it throws or any expectation inside it failed */
+  scenario(name: string, body: () => Promise<void>): Promise<void>;
+};
+
+/** Expectations for the hand-written Anvil suites (test_keeper, test_autoreveal), filed under `suite` */
+export function createChecks(suite: string): Checks {
+  const failures: string[] = [];
+  return {
+    failures,
+    expectEqual(name, actual, expected) {
+      const passed = String(actual) === String(expected);
+      recordAssertion({ name, passed, expected: String(expected), actual: String(actual) });
+      console.log(`   ${passed ? '✅' : '❌'} ${name}: ${actual}${passed ? '' : ` (expected ${expected})`}`);
+      if (!passed) failures.push(`${name}: ${actual} (expected ${expected})`);
+    },
+    async scenario(name, body) {
+      console.log(`\n${'='.repeat(60)}\n🧪 ${name}\n${'='.repeat(60)}`);
+      beginScenario(suite, name);
+      const before = failures.length;
+      try {
+        await body();
+        endScenario(failures.length === before ? 'passed' : 'failed', failures.length === before ? undefined : new Error(failures.slice(before).join('; ')));
+      } catch (err) {
+        endScenario('failed', err);
+        throw err;
+      }
+    }
+  };
+}
+
+/** Zero base fee and minimum gas price, then mine so they apply; nodes without these methods keep their fees */
+export async function zeroFeesOnAnvil(client: AnvilClient): Promise<void> {
+  try { await client.request({ method: 'anvil_setNextBlockBaseFeePerGas', params: ['0x0'] }); } catch {}
+  try { await client.request({ method: 'anvil_setMinGasPrice', params: ['0x0'] }); } catch {}
+  try { await client.request({ method: 'evm_mine', params: [] }); } catch {}
+}
+
+/** Give 100 ETH to every address holding less than 1 ETH; mnemonic-derived and fresh keys start with nothing */
+export async function fundOnAnvil(client: AnvilClient, addresses: Hex[]): Promise<void> {
+  for (const address of addresses) {
+    if ((await client.getBalance({ address })) < parseEther('1')) {
+      console.log(`Funding ${address} with 100 ETH on Anvil...`);
+      await client.request({ method: 'anvil_setBalance', params: [address, `0x${parseEther('100').toString(16)}`] });
+    }
+  }
+}
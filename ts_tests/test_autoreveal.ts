@@ -0,0 +1,134 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { Hex } from 'viem';
+import { loadEnv, makeClients, requirePlayers, verifyEnvironment, getDeployedContract, deployContract, makeCommit } from './client/utils.js';
+import { makeViemAdapter } from './client/viemAdapter.js';
+import { managedAnvil } from './client/anvil.js';
+import { makeRpsClient, RpsClient, FIXED_STAKE } from './client/rpsClient.js';
+import { Move } from './client/gameView.js';
+import { openVault, CommitmentVault } from './client/vault.js';
+import { createAutoRevealAgent, AutoRevealOptions } from './client/autoReveal.js';
+import { ChainAdapter } from './client/chainAdapter.js';
+import { startLogging, stopLogging, setChainMetadata } from './reportLogger.js';
+import { createChecks, zeroFeesOnAnvil, fundOnAnvil } from './testHarness.js';
+import { commitmentOf } from './client/commitment.js';
+
+/*
+ * Auto-reveal agent on Anvil: reveal on GameJoined, skip games without a vaulted secret, warn inside
+ * the safety margin, and replace a reveal left pending (automine off) with bumped fees.
+ */
+
+const { failures, expectEqual, scenario } = createChecks('autoReveal');
+
+/** Player 1 creates (vaulting the secret unless told not to), player 2 joins */
+async function createAndJoin(adapter: ChainAdapter, p1: RpsClient, p2: RpsClient, vault: CommitmentVault | undefined): Promise<bigint> {
+  const secret = makeCommit(Move.ROCK);
+  const commitment = commitmentOf(secret);
+  const chainId = await adapter.chainId();
+  await vault?.save({ chainId, contract: p1.address, player: p1.player, ...secret, commitment });
+  const { gameId } = await p1.createGame(commitment, FIXED_STAKE);
+  await vault?.assignGameId(commitment, gameId);
+  await p2.joinGame(gameId, commitmentOf(makeCommit(Move.PAPER)), FIXED_STAKE);
+  return gameId;
+}
+
+async function main() {
+  const env = loadEnv('anvil');
+  await startLogging('autoreveal', 'anvil');
+  const anvil = await managedAnvil(env, process.argv);
+
+  requirePlayers(env, 2, 'The auto-reveal test');
+  // Only the chain is checked: this suite deploys its own contract
+  await verifyEnvironment({ ...env, contractAddress: undefined });
+  const clients1 = await makeClients(env, 0);
+  const clients2 = await makeClients(env, 1);
+  const { publicClient } = clients1;
+  const rpc = (method: string, params: unknown[] = []) => (publicClient as any).request({ method, params });
+  await zeroFeesOnAnvil(publicClient);
+  // Fund before deploying: mnemonic-derived players start with nothing
+  await fundOnAnvil(publicClient, [clients1.account.address, clients2.account.address]);
+
+  const address = await deployContract(clients1.walletClient, publicClient, true);
+  const { abi } = await getDeployedContract(address);
+  const adapter = makeViemAdapter([clients1, clients2], address, abi);
+  const p1 = makeRpsClient(adapter, adapter.accounts[0]);
+  const p2 = makeRpsClient(adapter, adapter.accounts[1]);
+  setChainMetadata({ chainId: await adapter.chainId(), contract: address, library: adapter.library, fromBlock: await adapter.blockNumber() });
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rps-agent-'));
+  const vault = await openVault('autoreveal-test', path.join(dir, 'vault.json'));
+  const logs: string[] = [];
+  const agentFor = async (opts: Partial<AutoRevealOptions> = {}) => createAutoRevealAgent(adapter, {
+    vault, account: p1.player, fromBlock: (await adapter.blockNumber()) + 1n,
+    log: (m) => { logs.push(m); console.log(m); }, ...opts
+  });
+
+  console.log(`\n🤖 === Auto-Reveal Suite (Anvil) ===`);
+  console.log(`📍 Contract: ${address}`);
+
+  await scenario('reveals as soon as the opponent joins', async () => {
+    const agent = await agentFor();
+    const gameId = await createAndJoin(adapter, p1, p2, vault);
+    const [o] = await agent.poll();
+    expectEqual('outcome', o?.result, 'revealed');
+    expectEqual('submissions', o?.attempts, 1);
+    expectEqual('player 1 revealed on-chain', (await p1.getGame(gameId)).revealed?.[0], true);
+    expectEqual('no margin warning', o?.warnings.length, 0);
+    expectEqual('nothing left on the next poll', (await agent.poll()).length, 0);
+  });
+
+  await scenario('skips games without a vaulted secret', async () => {
+    const agent = await agentFor();
+    const gameId = await createAndJoin(adapter, p1, p2, undefined);
+    const [o] = await agent.poll();
+    expectEqual('outcome', o?.result, 'skipped');
+    expectEqual('player 1 not revealed', (await p1.getGame(gameId)).revealed?.[0], false);
+  });
+
+  await scenario('warns when the deadline is inside the safety margin', async () => {
+    const agent = await agentFor({ safetyMarginSec: 30n });
+    await createAndJoin(adapter, p1, p2, vault);
+    // 100 of the 120 seconds are gone when the agent looks
+    await adapter.increaseTime(100n);
+    await adapter.mine();
+    const [o] = await agent.poll();
+    expectEqual('outcome', o?.result, 'revealed');
+    expectEqual('margin warning', o?.warnings.some(w => w.includes('left before the reveal deadline')), true);
+  });
+
+  await scenario('replaces a pending reveal with bumped fees', async () => {
+    const agent = await agentFor({ attemptTimeoutMs: 1_000 });
+    const gameId = await createAndJoin(adapter, p1, p2, vault);
+    await rpc('evm_setAutomine', [false]);
+    try {
+      const logCount = logs.length;
+      const polling = agent.poll();
+      // Mine only after the agent gave up on the zero-fee attempt and sent a replacement
+      const started = Date.now();
+      while (!logs.slice(logCount).some(m => m.includes('replaced pending reveal')) && Date.now() - started < 30_000) {
+        await new Promise(r => setTimeout(r, 200));
+      }
+      await rpc('evm_mine');
+      const [o] = await polling;
+      expectEqual('outcome', o?.result, 'revealed');
+      expectEqual('replacement sent', (o?.attempts ?? 0) >= 2, true);
+      expectEqual('mined tx paid the bumped fee', (o?.tx?.effectiveGasPrice ?? 0n) > 0n, true);
+      expectEqual('player 1 revealed on-chain', (await p1.getGame(gameId)).revealed?.[0], true);
+    } finally {
+      await rpc('evm_setAutomine', [true]);
+    }
+  });
+
+  await fs.rm(dir, { recursive: true, force: true });
+  if (failures.length > 0) throw new Error(`${failures.length} auto-reveal assertion(s) failed:\n  ${failures.join('\n  ')}`);
+  console.log(`\n🎉 All auto-reveal tests completed!\n`);
+  await stopLogging();
+  await anvil?.stop();
+}
+
+main().catch(async (e) => {
+  console.error(e);
+  await stopLogging(e).catch(() => {});
+  process.exit(1);
+});
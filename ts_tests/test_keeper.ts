@@ -0,0 +1,148 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { Hex } from 'viem';
+import { generatePrivateKey } from 'viem/accounts';
+import { loadEnv, makeClients, requirePlayers, verifyEnvironment, getDeployedContract, deployContract, makeCommit } from './client/utils.js';
+import { makeViemAdapter } from './client/viemAdapter.js';
+import { managedAnvil } from './client/anvil.js';
+import { makeRpsClient, RpsClient, FIXED_STAKE } from './client/rpsClient.js';
+import { GameStatus, Move } from './client/gameView.js';
+import { openIndexer } from './client/indexer.js';
+import { createKeeper, Keeper } from './client/keeper.js';
+import { advancePast } from './client/chainAdapter.js';
+import { startLogging, stopLogging, setChainMetadata } from './reportLogger.js';
+import { createChecks, zeroFeesOnAnvil, fundOnAnvil } from './testHarness.js';
+import { commitmentOf } from './client/commitment.js';
+
+/*
+ * Keeper on Anvil with warped time. A third, non-player account runs the keeper against games
+ * left in every expirable state, then a fresh keeper instance resumes from the persisted state.
+ */
+
+type Players = { p1: RpsClient; p2: RpsClient };
+
+/** Create and join; optionally reveal some moves. Returns the gameId */
+async function setupGame({ p1, p2 }: Players, moves: [Move, Move], reveal: { p1: boolean; p2: boolean }): Promise<bigint> {
+  const s1 = makeCommit(moves[0]);
+  const s2 = makeCommit(moves[1]);
+  const { gameId } = await p1.createGame(commitmentOf(s1), FIXED_STAKE);
+  await p2.joinGame(gameId, commitmentOf(s2), FIXED_STAKE);
+  if (reveal.p1) await p1.reveal(gameId, s1.move, s1.salt, s1.nonce);
+  if (reveal.p2) await p2.reveal(gameId, s2.move, s2.salt, s2.nonce);
+  return gameId;
+}
+
+const { failures, expectEqual, scenario } = createChecks('keeper');
+
+async function statusName(client: RpsClient, gameId: bigint) {
+  return GameStatus[(await client.getGame(gameId)).status];
+}
+
+async function main() {
+  const env = loadEnv('anvil');
+  await startLogging('keeper', 'anvil');
+  const anvil = await managedAnvil(env, process.argv);
+
+  requirePlayers(env, 2, 'The keeper test');
+  // Only the chain is checked: this suite deploys its own contract
+  await verifyEnvironment({ ...env, contractAddress: undefined });
+  const clients1 = await makeClients(env, 0);
+  const clients2 = await makeClients(env, 1);
+  // The keeper is deliberately not a player: finalizing must work from any account
+  const keeperClients = await makeClients({ ...env, playerKeys: [generatePrivateKey()] });
+  const { publicClient } = clients1;
+  await zeroFeesOnAnvil(publicClient);
+  // Fund before deploying: the keeper key and mnemonic-derived players start with nothing
+  await fundOnAnvil(publicClient, [clients1, clients2, keeperClients].map(c => c.account.address));
+
+  const address = await deployContract(clients1.walletClient, publicClient, true);
+  const deploymentBlock = await publicClient.getBlockNumber({ cacheTime: 0 });
+  const { abi } = await getDeployedContract(address);
+  const adapter = makeViemAdapter([clients1, clients2, keeperClients], address, abi);
+  const [a1, a2, keeperAccount] = adapter.accounts;
+  const players: Players = { p1: makeRpsClient(adapter, a1), p2: makeRpsClient(adapter, a2) };
+  const reader = players.p1;
+  setChainMetadata({ chainId: await adapter.chainId(), contract: address, library: adapter.library, fromBlock: deploymentBlock });
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rps-keeper-'));
+  const files = { indexPath: path.join(dir, 'index.json'), keeperPath: path.join(dir, 'keeper.json') };
+  async function startKeeper(): Promise<Keeper> {
+    const indexer = await openIndexer(adapter, { fromBlock: deploymentBlock, filePath: files.indexPath, chunkSize: 50n });
+    return createKeeper(adapter, { indexer, filePath: files.keeperPath, account: keeperAccount });
+  }
+
+  console.log(`\n🤖 === Keeper Suite (Anvil, warped time) ===`);
+  console.log(`📍 Contract: ${address}`);
+  console.log(`👤 Keeper: ${keeperAccount}`);
+
+  const games: Record<string, bigint> = {};
+  let keeper = await startKeeper();
+
+  await scenario('nothing is finalized before the deadlines', async () => {
+    games.p1Revealed = await setupGame(players, [Move.ROCK, Move.PAPER], { p1: true, p2: false });
+    games.noneRevealed = await setupGame(players, [Move.ROCK, Move.PAPER], { p1: false, p2: false });
+    games.tie = await setupGame(players, [Move.SCISSORS, Move.SCISSORS], { p1: true, p2: true });
+    const open = await players.p1.createGame(commitmentOf(makeCommit(Move.ROCK)), FIXED_STAKE);
+    games.waiting = open.gameId;
+
+    const result = await keeper.tick();
+    expectEqual('finalized before deadline', result.finalized.length, 0);
+    expectEqual('games tracked', result.tracked.map(t => t.gameId).join(','), [games.p1Revealed, games.noneRevealed, games.tie].join(','));
+    expectEqual('next deadline scheduled', result.nextDeadline !== undefined, true);
+  });
+
+  await scenario('expired games are finalized after warping past the deadlines', async () => {
+    const deadline = keeper.tracked().map(t => t.deadline).reduce((a, b) => (b > a ? b : a));
+    await advancePast(adapter, deadline);
+    const keeperBefore = await adapter.getBalance(keeperAccount);
+    const result = await keeper.tick();
+    const byGame = new Map(result.finalized.map(f => [f.gameId, f.functionName]));
+    expectEqual('p1-only reveal claimed', byGame.get(games.p1Revealed), 'claimAfterRevealTimeout');
+    expectEqual('no-reveal game claimed', byGame.get(games.noneRevealed), 'claimAfterRevealTimeout');
+    expectEqual('expired tie split', byGame.get(games.tie), 'handleTie');
+    for (const id of [games.p1Revealed, games.noneRevealed, games.tie]) {
+      expectEqual(`game ${id} status`, await statusName(reader, id), 'COMPLETED');
+    }
+    expectEqual('waiting game untouched', await statusName(reader, games.waiting), 'WAITING');
+    expectEqual('tracked after finalizing', result.tracked.length, 0);
+    // Stakes go to the players, never to the keeper; with zero fees its balance is unchanged
+    expectEqual('keeper balance (zero-fee Anvil)', await adapter.getBalance(keeperAccount), keeperBefore);
+  });
+
+  await scenario('a restarted keeper resumes from persisted state', async () => {
+    games.late = await setupGame(players, [Move.PAPER, Move.ROCK], { p1: false, p2: true });
+    await keeper.tick();
+    const finalizedBefore = keeper.finalized().length;
+
+    keeper = await startKeeper();
+    expectEqual('tracked game restored', keeper.tracked().map(t => t.gameId).join(','), games.late);
+    expectEqual('history restored', keeper.finalized().length, finalizedBefore);
+    const again = await keeper.tick();
+    expectEqual('no double finalization', again.finalized.length, 0);
+
+    await advancePast(adapter, keeper.tracked()[0].deadline);
+    const controller = new AbortController();
+    const running = keeper.run({ signal: controller.signal, pollMs: 500, minSleepMs: 100 });
+    const started = Date.now();
+    while (!keeper.finalized().some(f => f.gameId === games.late) && Date.now() - started < 30_000) {
+      await new Promise(r => setTimeout(r, 100));
+    }
+    controller.abort();
+    await running;
+    expectEqual('run loop finalized the late game', keeper.finalized().some(f => f.gameId === games.late), true);
+    expectEqual('late game status', await statusName(reader, games.late), 'COMPLETED');
+  });
+
+  await fs.rm(dir, { recursive: true, force: true });
+  if (failures.length > 0) throw new Error(`${failures.length} keeper assertion(s) failed:\n  ${failures.join('\n  ')}`);
+  console.log(`\n🎉 All keeper tests completed!\n`);
+  await stopLogging();
+  await anvil?.stop();
+}
+
+main().catch(async (e) => {
+  console.error(e);
+  await stopLogging(e).catch(() => {});
+  process.exit(1);
+});